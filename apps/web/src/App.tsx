@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useEffectEvent, useMemo, useRef } from 'react'
 import './App.css'
 import SinglePackWorkspace from './components/SinglePackWorkspace'
 import CmdTool from './features/cmd/CmdTool'
@@ -10,49 +10,398 @@ import SoundTool from './features/sounds/SoundTool'
 import AnalyzerTool from './features/analyzer/AnalyzerTool'
 import ConverterTool from './features/converter/ConverterTool'
 import ManagerTool from './features/manager/ManagerTool'
+import HistoryPanel from './components/HistoryPanel'
+import FolderSyncPanel from './components/FolderSyncPanel'
+import { supportsDirectoryPicker } from './lib/resourcepack/folder'
+import { applyOverlayView, createOverlayView, readOverlays } from './lib/resourcepack/overlays'
 import { createEmptyPack, defaultPackSettings, type PackSettings } from './lib/resourcepack/metadata'
-import type { ResourcePack } from './lib/resourcepack/types'
-import { savePackToStorage, loadPackFromStorage } from './lib/resourcepack/persistence'
+import StorageStatus, { type SaveState } from './components/StorageStatus'
+import ProjectSwitcher from './components/ProjectSwitcher'
+import SnapshotPanel from './components/SnapshotPanel'
+import EditLockBanner, { type EditLock } from './components/EditLockBanner'
+import OverlaysPanel from './components/OverlaysPanel'
+import type { ResourcePack, Vfs } from './lib/resourcepack/types'
+import {
+  DEFAULT_PACK_ID,
+  createPackId,
+  deletePack,
+  describeStorageError,
+  duplicatePack,
+  getStorageEstimate,
+  isStaleSaveError,
+  listPacks,
+  loadPack,
+  loadSavedPack,
+  migrateLegacyStorage,
+  renamePack,
+  savePack,
+  setActivePackId,
+  type StorageEstimate,
+  type StoredPack,
+  type StoredPackMeta,
+} from './lib/resourcepack/persistence'
+import type { Snapshot } from './lib/resourcepack/snapshots'
+import {
+  TAB_ID,
+  findEditingTab,
+  onTabMessage,
+  postTabMessage,
+  requestTakeover,
+  type TabMessage,
+} from './lib/resourcepack/tabs'
+import {
+  createHistory,
+  currentPack,
+  jumpToHistory,
+  settingsForHistoryMove,
+  pushHistory,
+  redoHistory,
+  undoHistory,
+  type PackHistory,
+} from './lib/resourcepack/history'
 
 type ToolKey = 'cmd' | 'vanilla' | 'mixer' | 'glyphs' | 'json' | 'sounds' | 'analyzer' | 'converter' | 'manager'
 
 function App() {
   const [tool, setTool] = useState<ToolKey>('cmd')
   const [settings, setSettings] = useState<PackSettings>(() => defaultPackSettings())
-  const [pack, setPack] = useState<ResourcePack>(() => createEmptyPack(defaultPackSettings()))
-  const [loadedFromStorage, setLoadedFromStorage] = useState(false)
+  const [history, setHistory] = useState<PackHistory>(() => createHistory(createEmptyPack(defaultPackSettings()), 'New empty pack'))
+  const [storageReady, setStorageReady] = useState(false)
+  const [saveState, setSaveState] = useState<SaveState>({ status: 'idle' })
+  const [migrationProblems, setMigrationProblems] = useState<string[]>([])
+  const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null)
+  const [saveAttempt, setSaveAttempt] = useState(0)
+  const [activePackId, setActivePackIdState] = useState(DEFAULT_PACK_ID)
+  const [projects, setProjects] = useState<StoredPackMeta[]>([])
+  const [editLock, setEditLock] = useState<EditLock>({ status: 'editing' })
+  // Overlay directory the tools edit instead of the base pack (see OverlaysPanel).
+  const [overlayTarget, setOverlayTarget] = useState<string | null>(null)
+  // Pack and settings as of the last successful save; the next save only writes the difference.
+  const savedFiles = useRef<Vfs | null>(null)
+  const savedSettings = useRef<PackSettings | null>(null)
+  // Saves run one after another so each one diffs against the previous one's result.
+  const saveQueue = useRef<Promise<void>>(Promise.resolve())
+  // Stored revision the open project was loaded or last saved at (see savePack).
+  const savedRevision = useRef<number | null>(null)
+  // The project this tab may save to. Other tabs opening it get it read-only (see tabs.ts).
+  const leasedPackId = useRef<string | null>(null)
+  const pack = currentPack(history)
+  const editable = editLock.status === 'editing'
 
-  // Load pack from localStorage on mount
-  useEffect(() => {
-    async function load() {
-      const stored = await loadPackFromStorage()
-      if (stored) {
-        setPack(stored.pack)
-        setSettings(stored.settings)
-        setLoadedFromStorage(true)
-      }
+  function changePack(next: ResourcePack, label = 'Edited pack') {
+    if (!editable) return
+    setHistory((prev) => pushHistory(prev, next, label))
+  }
+
+  // Undo, redo and jumps; crossing a snapshot restore also swaps the settings back or forth.
+  function moveHistory(move: (history: PackHistory) => PackHistory) {
+    const next = move(history)
+    if (next === history) return
+    const restored = settingsForHistoryMove(history, next.index)
+    if (restored) setSettings({ ...restored, name: settings.name })
+    setHistory(next)
+  }
+
+  // What the tools see: the pack itself, or the targeted overlay merged over it. Falls back to the
+  // base pack when the overlay is gone (e.g. its entry was undone).
+  const activeOverlay = overlayTarget && readOverlays(pack).some((o) => o.directory === overlayTarget) ? overlayTarget : null
+  const toolPack = useMemo(() => (activeOverlay ? createOverlayView(pack, activeOverlay) : pack), [pack, activeOverlay])
+
+  function changeToolPack(next: ResourcePack, label = 'Edited pack') {
+    if (!activeOverlay) changePack(next, label)
+    else changePack(applyOverlayView(pack, activeOverlay, toolPack, next), `${label} (overlay ${activeOverlay})`)
+  }
+
+  // Load the last open project from IndexedDB on mount (migrating old localStorage saves first)
+  const loadOnMount = useEffectEvent(async () => {
+    try {
+      setMigrationProblems(await migrateLegacyStorage(DEFAULT_PACK_ID))
+      const stored = await loadSavedPack()
+      if (stored) await openStored(stored, 'Restored saved pack')
+      else await acquireLease(DEFAULT_PACK_ID)
+    } catch (e) {
+      setSaveState({ status: 'error', message: `Could not load the saved pack: ${e instanceof Error ? e.message : String(e)}` })
+    } finally {
+      // Not before: saving the default empty pack first would overwrite what is stored.
+      setStorageReady(true)
+      await refreshStorage()
     }
-    void load()
+  })
+  useEffect(() => {
+    void loadOnMount()
   }, [])
 
-  // Auto-save to localStorage on changes (debounced)
+  // Auto-save to IndexedDB on changes (debounced)
+  const persistLater = useEffectEvent((packId: string, next: ResourcePack, nextSettings: PackSettings) => persist(packId, next, nextSettings))
   useEffect(() => {
-    if (!loadedFromStorage && pack.files.size === 0) return
+    if (!storageReady) return
 
     const timeout = setTimeout(() => {
-      savePackToStorage(pack, settings)
+      saveQueue.current = saveQueue.current.then(() => persistLater(activePackId, pack, settings))
     }, 1000)
 
     return () => clearTimeout(timeout)
-  }, [pack, settings, loadedFromStorage])
+  }, [activePackId, pack, settings, storageReady, saveAttempt])
+
+  async function persist(packId: string, next: ResourcePack, nextSettings: PackSettings) {
+    if (leasedPackId.current !== packId) return
+    if (next.files === savedFiles.current && nextSettings === savedSettings.current) return
+    setSaveState({ status: 'saving' })
+    try {
+      const meta = await savePack(packId, next, nextSettings, savedFiles.current, savedRevision.current)
+      savedFiles.current = next.files
+      savedSettings.current = nextSettings
+      savedRevision.current = meta.revision
+      setSaveState({ status: 'saved', at: Date.now() })
+      postTabMessage({ type: 'saved', packId, revision: meta.revision })
+    } catch (e) {
+      if (isStaleSaveError(e)) {
+        // Keep the unsaved edits on screen, but never write them over the newer project.
+        leasedPackId.current = null
+        const exists = (await listPacks().catch(() => [])).some((p) => p.id === packId)
+        setEditLock({ status: 'readonly', reason: exists ? 'stale' : 'deleted' })
+      }
+      setSaveState({ status: 'error', message: describeStorageError(e, await getStorageEstimate().catch(() => null)) })
+    }
+    await refreshStorage()
+  }
+
+  async function refreshStorage() {
+    setStorageEstimate(await getStorageEstimate().catch(() => null))
+    setProjects(await listPacks().catch(() => []))
+  }
+
+  // Opens a project for editing, or read-only if another tab is already editing it.
+  async function openStored(stored: StoredPack, label: string) {
+    if (leasedPackId.current !== stored.meta.id) {
+      releaseLease()
+      await acquireLease(stored.meta.id)
+    }
+    showStored(stored, label)
+  }
+
+  function showStored(stored: StoredPack, label: string) {
+    if (stored.meta.id !== activePackId) setOverlayTarget(null)
+    setHistory(createHistory(stored.pack, label))
+    setSettings(stored.settings)
+    savedFiles.current = stored.pack.files
+    savedSettings.current = stored.settings
+    savedRevision.current = stored.meta.revision
+    setActivePackIdState(stored.meta.id)
+    setActivePackId(stored.meta.id)
+  }
+
+  async function acquireLease(packId: string) {
+    if (await findEditingTab(packId)) {
+      setEditLock({ status: 'readonly', reason: 'other-tab' })
+    } else {
+      claimLease(packId)
+    }
+  }
+
+  function claimLease(packId: string) {
+    leasedPackId.current = packId
+    setEditLock({ status: 'editing' })
+    postTabMessage({ type: 'editing', packId })
+  }
+
+  function releaseLease(to?: string) {
+    if (leasedPackId.current) postTabMessage({ type: 'released', packId: leasedPackId.current, to })
+    leasedPackId.current = null
+  }
+
+  // Asks the tab editing this project to save and let go, then continues from what it saved.
+  async function takeOver() {
+    if (await findEditingTab(activePackId)) await requestTakeover(activePackId)
+    const stored = await loadPack(activePackId)
+    if (!stored) throw new Error('Project not found')
+    claimLease(activePackId)
+    showStored(stored, `Took over editing ${stored.meta.name}`)
+  }
+
+  // Saves what is open (e.g. edits refused as stale) as a new project and switches to it.
+  async function keepAsNewProject() {
+    const name = `${settings.name}-copy`
+    const nextSettings = { ...settings, name }
+    const next = { ...pack, name }
+    const meta = await savePack(createPackId(), next, nextSettings, null)
+    await openStored({ meta, pack: next, settings: nextSettings }, `Kept changes as ${name}`)
+    await refreshStorage()
+  }
+
+  async function handleTabMessage(message: TabMessage) {
+    const holding = leasedPackId.current === message.packId
+    const following = message.packId === activePackId && editLock.status === 'readonly' && editLock.reason === 'other-tab'
+
+    switch (message.type) {
+      case 'query':
+        if (holding) postTabMessage({ type: 'editing', packId: message.packId })
+        break
+      case 'editing':
+        // Two tabs claimed the project at the same moment; the one with the larger id backs off.
+        if (holding && message.from < TAB_ID) {
+          leasedPackId.current = null
+          setEditLock({ status: 'readonly', reason: 'other-tab' })
+        }
+        break
+      case 'takeover':
+        if (holding) {
+          setEditLock({ status: 'readonly', reason: 'other-tab' })
+          await flushSave()
+          releaseLease(message.from)
+        }
+        break
+      case 'released':
+        // The editing tab closed or moved on; pick the project up where it left off.
+        if (following && !message.to) {
+          const stored = await loadPack(message.packId)
+          if (stored) {
+            claimLease(message.packId)
+            showStored(stored, `Took over editing ${stored.meta.name}`)
+          }
+        }
+        break
+      case 'saved':
+        if (following) {
+          const stored = await loadPack(message.packId)
+          if (stored) showStored(stored, 'Updated from another tab')
+        }
+        await refreshStorage()
+        break
+      case 'deleted':
+        if (message.packId === activePackId) {
+          leasedPackId.current = null
+          setEditLock({ status: 'readonly', reason: 'deleted' })
+        }
+        await refreshStorage()
+        break
+    }
+  }
+
+  // Re-subscribed on every render so the handler always sees the current project and lock.
+  useEffect(() => {
+    const stop = onTabMessage((message) => void handleTabMessage(message))
+    const onPageHide = () => releaseLease()
+    // Back from the back/forward cache: the lease was given up on the way out.
+    const onPageShow = (e: PageTransitionEvent) => {
+      if (e.persisted) void acquireLease(activePackId)
+    }
+    window.addEventListener('pagehide', onPageHide)
+    window.addEventListener('pageshow', onPageShow)
+    return () => {
+      stop()
+      window.removeEventListener('pagehide', onPageHide)
+      window.removeEventListener('pageshow', onPageShow)
+    }
+  })
+
+  // Undoable like any other edit; the project keeps its current name.
+  function restoreSnapshot(snapshot: Snapshot) {
+    if (!editable) return
+    const restored = { ...snapshot.settings, name: settings.name }
+    setHistory((prev) =>
+      pushHistory(prev, { ...snapshot.pack, name: pack.name }, `Restored snapshot ${snapshot.meta.name}`, { before: settings, after: restored }),
+    )
+    setSettings(restored)
+  }
+
+  // Writes the open project's pending changes now instead of after the debounce (before switching away).
+  async function flushSave() {
+    saveQueue.current = saveQueue.current.then(() => persist(activePackId, pack, settings))
+    await saveQueue.current
+  }
+
+  async function openProject(packId: string) {
+    await flushSave()
+    const stored = await loadPack(packId)
+    if (!stored) throw new Error('Project not found')
+    await openStored(stored, `Opened ${stored.meta.name}`)
+  }
+
+  async function createProject() {
+    await flushSave()
+    await startNewProject()
+    await refreshStorage()
+  }
+
+  async function startNewProject() {
+    const nextSettings = { ...defaultPackSettings(), name: 'new-pack' }
+    const next = createEmptyPack(nextSettings)
+    const meta = await savePack(createPackId(), next, nextSettings, null)
+    await openStored({ meta, pack: next, settings: nextSettings }, 'New empty pack')
+  }
+
+  async function duplicateProject(packId: string) {
+    await flushSave()
+    const source = projects.find((p) => p.id === packId)
+    await duplicatePack(packId, `${source?.name ?? 'pack'}-copy`)
+    await refreshStorage()
+  }
+
+  async function renameProject(packId: string, name: string) {
+    // The open project's name is its settings name; the regular save picks the change up.
+    if (packId === activePackId) setSettings({ ...settings, name })
+    else {
+      await renamePack(packId, name)
+      await refreshStorage()
+    }
+  }
+
+  async function deleteProject(packId: string) {
+    // Settle pending saves first so none of them recreates the project after it's gone.
+    if (packId === activePackId) await flushSave()
+    await deletePack(packId)
+    postTabMessage({ type: 'deleted', packId })
+    if (packId === activePackId) {
+      leasedPackId.current = null
+      const [next] = (await listPacks()).filter((p) => p.id !== packId)
+      if (next) {
+        const stored = await loadPack(next.id)
+        if (stored) await openStored(stored, `Opened ${stored.meta.name}`)
+      } else {
+        await startNewProject()
+      }
+    }
+    await refreshStorage()
+  }
+
+  // Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y) step through pack history.
+  // Text fields keep their native undo so typing isn't hijacked.
+  const onHistoryKey = useEffectEvent((move: (history: PackHistory) => PackHistory) => moveHistory(move))
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      if (!editable) return
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return
+      if (isTextEditingTarget(e.target)) return
+
+      const key = e.key.toLowerCase()
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault()
+        onHistoryKey(undoHistory)
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault()
+        onHistoryKey(redoHistory)
+      }
+    }
+
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [editable])
 
   return (
     <div className="app">
       <header className="header">
         <h1>Minecraft Resource Pack Web Manager</h1>
         <p style={{ marginTop: 0, opacity: 0.85 }}>
-          Pure web app: import pack ZIP(s) → edit in-browser → download a new ZIP.
+          Pure web app: import pack ZIP(s) or folders → edit in-browser → download a new ZIP or sync to a folder.
         </p>
+        <StorageStatus
+          save={saveState}
+          estimate={storageEstimate}
+          onRetry={() => setSaveAttempt((n) => n + 1)}
+          migrationProblems={migrationProblems}
+          onDismissMigrationProblems={() => setMigrationProblems([])}
+        />
 
         <nav className="tabs" aria-label="Tools">
           <button type="button" className={tool === 'cmd' ? 'active' : ''} onClick={() => setTool('cmd')}>
@@ -91,28 +440,81 @@ function App() {
 
       <main className="content">
         {tool !== 'mixer' && (
-          <SinglePackWorkspace
-            pack={pack}
-            onPackChange={setPack}
-            settings={settings}
-            onSettingsChange={setSettings}
-            exportNameSuffix="edited"
+          <ProjectSwitcher
+            projects={projects}
+            activeId={activePackId}
+            activeName={settings.name}
+            onOpen={openProject}
+            onCreate={createProject}
+            onDuplicate={duplicateProject}
+            onRename={renameProject}
+            onDelete={deleteProject}
           />
         )}
 
-        {tool === 'mixer' && <MixerTool />}
+        {tool !== 'mixer' && <EditLockBanner lock={editLock} onTakeOver={takeOver} onKeepCopy={keepAsNewProject} />}
+
+        {/* Disables every control below while another tab edits the project; display: contents keeps the layout. */}
+        <fieldset className="workspace-lock" disabled={!editable}>
+          {tool !== 'mixer' && (
+            <SnapshotPanel packId={activePackId} pack={pack} settings={settings} onRestore={restoreSnapshot} />
+          )}
+
+          {tool !== 'mixer' && (
+            <SinglePackWorkspace
+              pack={pack}
+              onPackChange={changePack}
+              settings={settings}
+              onSettingsChange={setSettings}
+              exportNameSuffix="edited"
+            />
+          )}
+
+          {tool !== 'mixer' && (
+            <OverlaysPanel pack={pack} onPackChange={changePack} target={activeOverlay} onTargetChange={setOverlayTarget} />
+          )}
 
-        {tool === 'cmd' && <CmdTool pack={pack} onPackChange={setPack} />}
-        {tool === 'vanilla' && <VanillaTool pack={pack} onPackChange={setPack} />}
-        {tool === 'glyphs' && <GlyphTool pack={pack} onPackChange={setPack} />}
-        {tool === 'sounds' && <SoundTool pack={pack} onPackChange={setPack} />}
-        {tool === 'manager' && <ManagerTool pack={pack} onPackChange={setPack} />}
-        {tool === 'json' && <JsonEditorTool pack={pack} onPackChange={setPack} />}
-        {tool === 'analyzer' && <AnalyzerTool pack={pack} onPackChange={setPack} />}
-        {tool === 'converter' && <ConverterTool pack={pack} onPackChange={setPack} />}
+          {tool !== 'mixer' && (
+            <HistoryPanel
+              history={history}
+              onUndo={() => moveHistory(undoHistory)}
+              onRedo={() => moveHistory(redoHistory)}
+              onJump={(index) => moveHistory((prev) => jumpToHistory(prev, index))}
+            />
+          )}
+
+          {/* Kept mounted on the mixer tab so switching tools doesn't drop the folder connection. */}
+          {supportsDirectoryPicker() && (
+            <div hidden={tool === 'mixer'}>
+              {/* Remounted per project: a folder synced to one project must not receive another. */}
+              <FolderSyncPanel key={activePackId} pack={pack} onPackChange={changePack} />
+            </div>
+          )}
+
+          {tool === 'cmd' && <CmdTool pack={toolPack} onPackChange={changeToolPack} />}
+          {tool === 'vanilla' && <VanillaTool pack={toolPack} onPackChange={changeToolPack} />}
+          {tool === 'glyphs' && <GlyphTool pack={toolPack} onPackChange={changeToolPack} />}
+          {tool === 'sounds' && <SoundTool pack={toolPack} onPackChange={changeToolPack} />}
+          {tool === 'manager' && <ManagerTool pack={pack} onPackChange={changePack} />}
+          {tool === 'json' && <JsonEditorTool pack={toolPack} onPackChange={changeToolPack} />}
+          {tool === 'analyzer' && <AnalyzerTool pack={pack} onPackChange={changePack} />}
+          {tool === 'converter' && <ConverterTool pack={pack} onPackChange={changePack} />}
+        </fieldset>
+
+        {tool === 'mixer' && <MixerTool />}
       </main>
     </div>
   )
 }
 
+function isTextEditingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  if (target.isContentEditable) return true
+  if (target instanceof HTMLTextAreaElement) return true
+  if (target instanceof HTMLInputElement) {
+    return !['checkbox', 'radio', 'button', 'submit', 'file', 'range', 'color'].includes(target.type)
+  }
+  return false
+}
+
 export default App
@@ -0,0 +1,191 @@
+import { readFile, stat } from 'node:fs/promises'
+import { dirname, join, resolve } from 'node:path'
+import { analyzePack, detectConflicts, findDuplicateTextures, findUnusedFiles } from '../lib/resourcepack/analyzer'
+import { DEFAULT_EXPORT_PROFILE, findExportProfile } from '../lib/resourcepack/compression'
+import { convertPackFormat, detectPackFormat } from '../lib/resourcepack/converter'
+import { derivePackId, sha1Hex } from '../lib/resourcepack/hosting'
+import { PROJECT_FILE_NAME, buildPackProject, parsePackProject } from '../lib/resourcepack/project'
+import { applyCustomModelData, mixPacks } from '../lib/resourcepack/tools'
+import { validatePack } from '../lib/resourcepack/validation'
+import { LATEST_RELEASE, findByVersion } from '../lib/resourcepack/versioning'
+import { loadPack, writePack } from './io'
+
+// Every command resolves to a JSON-serializable result plus the process exit code.
+export type CommandResult = {
+  output: unknown
+  exitCode: number
+}
+
+export type CommandOptions = {
+  out?: string
+  root?: string
+  to?: string
+  name?: string
+  item?: string
+  cmd?: string
+  texture?: string
+  namespace?: string
+  profile?: string
+}
+
+export const EXIT_OK = 0
+export const EXIT_VALIDATION_FAILED = 1
+export const EXIT_USAGE = 2
+
+export async function validateCommand(paths: string[], options: CommandOptions): Promise<CommandResult> {
+  const input = requireOne(paths, 'validate')
+  const { pack, report } = await loadPack(input, options.root)
+  const issues = validatePack(pack)
+  const errors = issues.filter((i) => i.severity === 'error').length
+  return {
+    output: {
+      pack: pack.name,
+      files: pack.files.size,
+      skipped: report.skipped,
+      errors,
+      warnings: issues.filter((i) => i.severity === 'warning').length,
+      issues,
+    },
+    exitCode: errors > 0 ? EXIT_VALIDATION_FAILED : EXIT_OK,
+  }
+}
+
+export async function analyzeCommand(paths: string[], options: CommandOptions): Promise<CommandResult> {
+  const input = requireOne(paths, 'analyze')
+  const { pack } = await loadPack(input, options.root)
+  return {
+    output: {
+      pack: pack.name,
+      packFormat: detectPackFormat(pack),
+      stats: analyzePack(pack),
+      unused: findUnusedFiles(pack),
+      duplicates: findDuplicateTextures(pack),
+      validation: validatePack(pack),
+    },
+    exitCode: EXIT_OK,
+  }
+}
+
+export async function convertCommand(paths: string[], options: CommandOptions): Promise<CommandResult> {
+  const input = requireOne(paths, 'convert')
+  const out = requireOption(options.out, '--out')
+  const target = parseTargetFormat(requireOption(options.to, '--to'))
+
+  const { pack } = await loadPack(input, options.root)
+  const from = detectPackFormat(pack)
+  const result = convertPackFormat(pack, target)
+  await writePack(result.pack, out)
+  return {
+    output: { pack: pack.name, from, to: target, out, changes: result.changes, warnings: result.warnings },
+    exitCode: EXIT_OK,
+  }
+}
+
+export async function mixCommand(paths: string[], options: CommandOptions): Promise<CommandResult> {
+  if (paths.length < 2) throw new Error('mix needs at least two packs (lowest priority first)')
+  const out = requireOption(options.out, '--out')
+
+  const packs = []
+  for (const path of paths) packs.push((await loadPack(path)).pack)
+  const mixed = mixPacks(packs, options.name ?? 'mixed-pack')
+  await writePack(mixed, out)
+  return {
+    output: {
+      packs: packs.map((p) => p.name),
+      files: mixed.files.size,
+      conflicts: detectConflicts(packs),
+      out,
+    },
+    exitCode: EXIT_OK,
+  }
+}
+
+export async function cmdAddCommand(paths: string[], options: CommandOptions): Promise<CommandResult> {
+  const input = requireOne(paths, 'cmd add')
+  const out = requireOption(options.out, '--out')
+  const itemId = requireOption(options.item, '--item')
+  const customModelData = Number(requireOption(options.cmd, '--cmd'))
+  if (!Number.isInteger(customModelData) || customModelData <= 0) throw new Error(`--cmd must be a positive integer, got ${options.cmd}`)
+  const texturePng = new Uint8Array(await readFile(requireOption(options.texture, '--texture')))
+
+  const { pack } = await loadPack(input, options.root)
+  const next = applyCustomModelData(pack, { itemId, customModelData, texturePng, namespace: options.namespace })
+  await writePack(next, out)
+  return {
+    output: { pack: pack.name, item: itemId, cmd: customModelData, out },
+    exitCode: EXIT_OK,
+  }
+}
+
+export async function exportCommand(paths: string[], options: CommandOptions): Promise<CommandResult> {
+  const input = requireOne(paths, 'export')
+  const out = requireOption(options.out, '--out')
+  if (!out.toLowerCase().endsWith('.zip')) throw new Error('export writes a ZIP; --out must end in .zip')
+
+  const profile = options.profile ? findExportProfile(options.profile) : DEFAULT_EXPORT_PROFILE
+  if (!profile) throw new Error(`Unknown compression profile: ${options.profile}`)
+
+  const { pack } = await loadPack(input, options.root)
+  const bytes = (await writePack(pack, out, profile))!
+  return {
+    output: {
+      pack: pack.name,
+      out,
+      size: bytes.byteLength,
+      sha1: await sha1Hex(bytes),
+      packId: await derivePackId(pack.name),
+    },
+    exitCode: EXIT_OK,
+  }
+}
+
+// `build <project>`: the manifest file itself, or a folder containing mrwm.project.json.
+export async function buildCommand(paths: string[], options: CommandOptions): Promise<CommandResult> {
+  const input = requireOne(paths, 'build')
+  const out = requireOption(options.out, '--out')
+
+  const manifestPath = (await stat(input)).isDirectory() ? join(input, PROJECT_FILE_NAME) : input
+  const project = parsePackProject(await readFile(manifestPath, 'utf8'))
+  const baseDir = dirname(resolve(manifestPath))
+  const { pack, glyphs } = await buildPackProject(project, async (source) => {
+    try {
+      return new Uint8Array(await readFile(resolve(baseDir, source)))
+    } catch {
+      throw new Error(`Cannot read source ${source} (relative to ${manifestPath})`)
+    }
+  })
+
+  const bytes = await writePack(pack, out)
+  const validation = validatePack(pack)
+  return {
+    output: {
+      pack: pack.name,
+      files: pack.files.size,
+      out,
+      sha1: bytes ? await sha1Hex(bytes) : undefined,
+      glyphs,
+      validation,
+    },
+    exitCode: validation.some((i) => i.severity === 'error') ? EXIT_VALIDATION_FAILED : EXIT_OK,
+  }
+}
+
+// A pack_format, a version ("1.21.4", "24w33a") or "latest".
+function parseTargetFormat(value: string): number {
+  if (value === 'latest') return LATEST_RELEASE.packFormat
+  const entry = findByVersion(value)
+  if (entry) return entry.packFormat
+  const target = Number(value)
+  if (!Number.isInteger(target) || target <= 0) throw new Error('--to must be a pack_format, a Minecraft version or "latest"')
+  return target
+}
+
+function requireOne(paths: string[], command: string): string {
+  if (paths.length !== 1) throw new Error(`${command} takes exactly one input`)
+  return paths[0]
+}
+
+function requireOption(value: string | undefined, flag: string): string {
+  if (value === undefined || value === '') throw new Error(`Missing ${flag}`)
+  return value
+}
@@ -0,0 +1,67 @@
+import { mkdir, readFile, readdir, stat, writeFile } from 'node:fs/promises'
+import { basename, dirname, join, relative, resolve, sep } from 'node:path'
+import type { ExportProfile } from '../lib/resourcepack/compression'
+import { importFolderEntries, type FolderEntry } from '../lib/resourcepack/folder'
+import type { ResourcePack } from '../lib/resourcepack/types'
+import { applyImportRoot, exportZipBytes, importZipWithReport, type ImportResult } from '../lib/resourcepack/zip'
+import { packRootName } from '../lib/resourcepack/roots'
+
+// Loads a pack ZIP or an unzipped pack folder through the same importers the web app uses.
+// `root` picks one pack out of an archive/folder that holds several.
+export async function loadPack(path: string, root?: string): Promise<ImportResult> {
+  const info = await stat(path).catch(() => null)
+  if (!info) throw new Error(`No such file or folder: ${path}`)
+
+  let result: ImportResult
+  if (info.isDirectory()) {
+    const entries = await listFolder(path)
+    result = await importFolderEntries(basename(path), entries, {})
+  } else {
+    const bytes = await readFile(path)
+    result = await importZipWithReport(new File([bytes], basename(path)))
+  }
+
+  const roots = result.report.packRoots
+  if (root !== undefined) {
+    const normalized = root.replace(/\/*$/, '/')
+    if (!roots.includes(normalized)) throw new Error(`${path} has no pack root ${normalized} (found: ${roots.join(', ') || 'none'})`)
+    return applyImportRoot(result, normalized, packRootName(normalized))
+  }
+  if (roots.length > 1) {
+    throw new Error(`${path} contains ${roots.length} packs (${roots.join(', ')}); pick one with --root`)
+  }
+  return result
+}
+
+// `out` ending in .zip writes an archive (always reproducible); anything else is treated as a folder.
+export async function writePack(pack: ResourcePack, out: string, profile?: ExportProfile): Promise<Uint8Array | null> {
+  if (out.toLowerCase().endsWith('.zip')) {
+    const bytes = exportZipBytes(pack.files, { deterministic: true, profile })
+    await mkdir(dirname(out), { recursive: true })
+    await writeFile(out, bytes)
+    return bytes
+  }
+
+  // Importers already drop `..` entries; this catches any pack path that would still land outside `out`.
+  const base = resolve(out) + sep
+  for (const [path, data] of pack.files) {
+    const target = resolve(base, ...path.split('/'))
+    if (!target.startsWith(base)) throw new Error(`Refusing to write ${path}: it resolves outside ${out}`)
+    await mkdir(dirname(target), { recursive: true })
+    await writeFile(target, data)
+  }
+  return null
+}
+
+async function listFolder(root: string): Promise<FolderEntry[]> {
+  const entries: FolderEntry[] = []
+  for (const dirent of await readdir(root, { recursive: true, withFileTypes: true })) {
+    if (!dirent.isFile()) continue
+    const absolute = join(dirent.parentPath, dirent.name)
+    entries.push({
+      path: relative(root, absolute).split(sep).join('/'),
+      getFile: async () => new File([await readFile(absolute)], dirent.name),
+    })
+  }
+  return entries
+}
@@ -0,0 +1,91 @@
+#!/usr/bin/env node
+import { parseArgs } from 'node:util'
+import {
+  EXIT_USAGE,
+  analyzeCommand,
+  buildCommand,
+  cmdAddCommand,
+  convertCommand,
+  exportCommand,
+  mixCommand,
+  validateCommand,
+  type CommandOptions,
+  type CommandResult,
+} from './commands'
+
+// mrwm: the resourcepack library without the UI, for build servers.
+// Results go to stdout as JSON; exit code 1 means validation errors, 2 means the command failed.
+
+const USAGE = `Usage: mrwm <command> [options]
+
+Commands:
+  validate <pack>                          Check a pack; exits 1 if it has errors
+  analyze <pack>                           Stats, unused files, duplicates and validation
+  convert <pack> --to <format> --out <p>   Convert to a pack_format, version or "latest"
+  mix <pack> <pack>... --out <p>           Merge packs, lowest priority first
+  cmd add <pack> --item <id> --cmd <n> --texture <png> --out <p>
+                                           Add a custom model data entry
+  export <pack> --out <file.zip>           Write a reproducible ZIP and print its SHA-1
+  build <project> --out <p>                Compile a mrwm.project.json (or its folder) into a pack
+
+<pack> is a .zip or a folder. --out ending in .zip writes a ZIP, anything else a folder.
+
+Options:
+  --root <dir>        Pick one pack when the input holds several
+  --name <name>       Name of the mixed pack (mix)
+  --namespace <ns>    Namespace for generated files (cmd add, default "mrwm")
+  --profile <id>      Compression profile (export: balanced, smallest, fastest, legacy)
+  -h, --help          Show this help
+`
+
+const COMMANDS: Record<string, (paths: string[], options: CommandOptions) => Promise<CommandResult>> = {
+  validate: validateCommand,
+  analyze: analyzeCommand,
+  convert: convertCommand,
+  mix: mixCommand,
+  'cmd add': cmdAddCommand,
+  export: exportCommand,
+  build: buildCommand,
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o' },
+      root: { type: 'string' },
+      to: { type: 'string' },
+      name: { type: 'string' },
+      item: { type: 'string' },
+      cmd: { type: 'string' },
+      texture: { type: 'string' },
+      namespace: { type: 'string' },
+      profile: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+
+  // "cmd" is the only command with a sub-command.
+  const [first, ...rest] = positionals
+  const command = first === 'cmd' ? `cmd ${rest.shift() ?? ''}` : first
+  const run = command ? COMMANDS[command] : undefined
+  if (values.help || !run) {
+    process.stderr.write(USAGE)
+    return values.help ? 0 : EXIT_USAGE
+  }
+
+  const { output, exitCode } = await run(rest, values)
+  process.stdout.write(`${JSON.stringify(output, null, 2)}\n`)
+  return exitCode
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code
+  },
+  (err: unknown) => {
+    process.stdout.write(`${JSON.stringify({ error: err instanceof Error ? err.message : String(err) }, null, 2)}\n`)
+    process.exitCode = EXIT_USAGE
+  },
+)
@@ -0,0 +1,343 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import {
+  LEGACY_COLORS,
+  LEGACY_FORMATS,
+  PACK_LIST_DESCRIPTION_COLOR,
+  PACK_LIST_DESCRIPTION_LINES,
+  PACK_LIST_TEXT_WIDTH,
+  PLAIN_STYLE,
+  charAdvance,
+  colorToHex,
+  flattenComponent,
+  isTextComponent,
+  spansToComponent,
+  spansToLegacy,
+  wrapSpans,
+  type TextComponent,
+  type TextSpan,
+  type TextStyle,
+} from '../lib/resourcepack/textComponent'
+
+type Props = {
+  value: TextComponent
+  onChange: (next: TextComponent) => void
+  // Shown as the pack entry's title, like the file name in game.
+  name: string
+  icon: Uint8Array | File | null
+  packFormat: number
+}
+
+// Hex colors arrived in 1.16 (format 5).
+const HEX_COLORS_FORMAT = 5
+// Preview pixels per game pixel.
+const SCALE = 2
+
+const STYLE_TOGGLES: { key: Exclude<keyof TextStyle, 'color'>; label: string; title: string }[] = [
+  { key: 'bold', label: 'B', title: 'Bold' },
+  { key: 'italic', label: 'I', title: 'Italic' },
+  { key: 'underlined', label: 'U', title: 'Underlined' },
+  { key: 'strikethrough', label: 'S', title: 'Strikethrough' },
+  { key: 'obfuscated', label: '?', title: 'Obfuscated' },
+]
+
+// pack.mcmeta description: either a string with § codes or a JSON text component, with a preview of
+// the entry in the game's pack selection screen.
+export default function DescriptionEditor({ value, onChange, name, icon, packFormat }: Props) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const [rawDraft, setRawDraft] = useState<string | null>(null)
+
+  const legacy = typeof value === 'string'
+  const spans = flattenComponent(value)
+  const lines = wrapSpans(spans, PACK_LIST_TEXT_WIDTH)
+  const shown = lines.slice(0, PACK_LIST_DESCRIPTION_LINES)
+  const cut = lines
+    .slice(PACK_LIST_DESCRIPTION_LINES)
+    .map((line) => line.map((s) => s.text).join(''))
+    .join(' ')
+  const usesHex = spans.some((s) => s.color?.startsWith('#'))
+
+  function insertCode(code: string) {
+    if (typeof value !== 'string') return
+    const el = textareaRef.current
+    const start = el?.selectionStart ?? value.length
+    const end = el?.selectionEnd ?? start
+    onChange(`${value.slice(0, start)}§${code}${value.slice(end)}`)
+    requestAnimationFrame(() => {
+      el?.focus()
+      el?.setSelectionRange(start + 2, start + 2)
+    })
+  }
+
+  function updateSegment(index: number, patch: Partial<TextSpan>) {
+    onChange(spansToComponent(spans.map((s, i) => (i === index ? { ...s, ...patch } : s))))
+  }
+
+  function removeSegment(index: number) {
+    onChange(spansToComponent(spans.filter((_, i) => i !== index)))
+  }
+
+  return (
+    <div className="description-editor">
+      <div className="row" style={{ gap: 8, alignItems: 'center' }}>
+        <button type="button" className={legacy ? 'primary' : ''} onClick={() => !legacy && onChange(spansToLegacy(spans))}>
+          Text with § codes
+        </button>
+        <button type="button" className={legacy ? '' : 'primary'} onClick={() => legacy && onChange(spansToComponent(spans))}>
+          JSON text component
+        </button>
+      </div>
+
+      {typeof value === 'string' ? (
+        <>
+          <div className="code-palette">
+            {LEGACY_COLORS.map((c) => (
+              <button
+                key={c.code}
+                type="button"
+                title={`§${c.code} ${c.name}`}
+                style={{ background: c.hex }}
+                onClick={() => insertCode(c.code)}
+              />
+            ))}
+            {LEGACY_FORMATS.map((f) => (
+              <button key={f.code} type="button" title={`§${f.code} ${f.key}`} onClick={() => insertCode(f.code)}>
+                {f.code}
+              </button>
+            ))}
+            <button type="button" title="§r reset" onClick={() => insertCode('r')}>
+              r
+            </button>
+          </div>
+          <textarea
+            ref={textareaRef}
+            rows={2}
+            value={value}
+            placeholder="My pack"
+            onChange={(e) => onChange(e.target.value)}
+          />
+        </>
+      ) : (
+        <>
+          <ul className="segment-list">
+            {spans.map((span, i) => (
+              <li key={i}>
+                <input value={span.text} onChange={(e) => updateSegment(i, { text: e.target.value })} />
+                <select
+                  value={span.color === null ? '' : span.color.startsWith('#') ? '#' : span.color}
+                  onChange={(e) => {
+                    const color = e.target.value
+                    updateSegment(i, { color: color === '#' ? (colorToHex(span.color ?? 'white') ?? '#FFFFFF') : color || null })
+                  }}
+                >
+                  <option value="">Default</option>
+                  {LEGACY_COLORS.map((c) => (
+                    <option key={c.name} value={c.name}>
+                      {c.name}
+                    </option>
+                  ))}
+                  <option value="#">Hex…</option>
+                </select>
+                {span.color?.startsWith('#') && (
+                  <input type="color" value={span.color.toLowerCase()} onChange={(e) => updateSegment(i, { color: e.target.value.toUpperCase() })} />
+                )}
+                {STYLE_TOGGLES.map((t) => (
+                  <button
+                    key={t.key}
+                    type="button"
+                    title={t.title}
+                    className={span[t.key] ? 'primary' : ''}
+                    onClick={() => updateSegment(i, { [t.key]: !span[t.key] })}
+                  >
+                    {t.label}
+                  </button>
+                ))}
+                <button type="button" title="Remove segment" onClick={() => removeSegment(i)}>
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="row" style={{ gap: 8 }}>
+            <button type="button" onClick={() => onChange(spansToComponent([...spans, { ...PLAIN_STYLE, text: 'New text' }]))}>
+              Add Segment
+            </button>
+          </div>
+          <details>
+            <summary>Raw JSON</summary>
+            <textarea
+              rows={4}
+              value={rawDraft ?? JSON.stringify(value)}
+              style={{ borderColor: rawDraft !== null ? 'tomato' : undefined, fontFamily: 'monospace' }}
+              onChange={(e) => {
+                let parsed: unknown
+                try {
+                  parsed = JSON.parse(e.target.value)
+                } catch {
+                  parsed = undefined
+                }
+                // A bare string belongs in the § code mode; here it stays an object.
+                if (typeof parsed === 'string') parsed = { text: parsed }
+                if (!isTextComponent(parsed)) {
+                  setRawDraft(e.target.value)
+                  return
+                }
+                setRawDraft(null)
+                onChange(parsed)
+              }}
+              onBlur={() => setRawDraft(null)}
+            />
+          </details>
+        </>
+      )}
+
+      <PackEntryPreview name={name} icon={icon} lines={shown} />
+
+      {cut && (
+        <small style={{ color: 'orange' }}>
+          Only {PACK_LIST_DESCRIPTION_LINES} lines fit in the pack list; this is cut off: “{cut}”
+        </small>
+      )}
+      {usesHex && !legacy && packFormat < HEX_COLORS_FORMAT && (
+        <small style={{ color: 'orange' }}>Hex colors need Java 1.16 or newer; older clients show the default color.</small>
+      )}
+
+      <style>{`
+        .description-editor {
+          display: flex;
+          flex-direction: column;
+          gap: 8px;
+        }
+
+        .code-palette {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 4px;
+        }
+
+        .code-palette button {
+          min-width: 20px;
+          height: 20px;
+          padding: 0 4px;
+          font-size: 8px;
+        }
+
+        .segment-list {
+          list-style: none;
+          margin: 0;
+          padding: 0;
+          display: flex;
+          flex-direction: column;
+          gap: 4px;
+        }
+
+        .segment-list li {
+          display: flex;
+          align-items: center;
+          gap: 4px;
+        }
+
+        .segment-list li input:first-child {
+          flex: 1;
+          min-width: 0;
+        }
+
+        .segment-list li button {
+          padding: 4px 6px;
+          font-size: 8px;
+        }
+
+        .pack-entry-preview {
+          display: flex;
+          gap: ${2 * SCALE}px;
+          padding: ${2 * SCALE}px;
+          background: #000;
+          border: 1px solid var(--mc-border);
+          width: fit-content;
+          max-width: 100%;
+          overflow-x: auto;
+        }
+
+        .pack-entry-preview .icon {
+          width: ${32 * SCALE}px;
+          height: ${32 * SCALE}px;
+          image-rendering: pixelated;
+          flex-shrink: 0;
+        }
+
+        .pack-entry-preview .icon.missing {
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          background: #2a2a2a;
+          color: var(--mc-muted);
+        }
+
+        .pack-entry-preview .text {
+          width: ${PACK_LIST_TEXT_WIDTH * SCALE}px;
+          font-size: ${5 * SCALE}px;
+          line-height: ${10 * SCALE}px;
+          overflow: hidden;
+        }
+
+        .pack-entry-preview .line {
+          height: ${10 * SCALE}px;
+          white-space: pre;
+        }
+
+        .pack-entry-preview .line span span {
+          display: inline-block;
+          text-align: center;
+        }
+      `}</style>
+    </div>
+  )
+}
+
+function PackEntryPreview({ name, icon, lines }: { name: string; icon: Uint8Array | File | null; lines: TextSpan[][] }) {
+  const iconUrl = useMemo(
+    () => (icon ? URL.createObjectURL(icon instanceof File ? icon : new Blob([icon as BlobPart], { type: 'image/png' })) : null),
+    [icon],
+  )
+  useEffect(() => () => {
+    if (iconUrl) URL.revokeObjectURL(iconUrl)
+  }, [iconUrl])
+
+  const title: TextSpan = { ...PLAIN_STYLE, color: 'white', text: `${name.trim() || 'resourcepack'}.zip` }
+
+  return (
+    <div className="pack-entry-preview" aria-label="Pack list preview">
+      {iconUrl ? <img className="icon" src={iconUrl} alt="" /> : <div className="icon missing">?</div>}
+      <div className="text">
+        <PreviewLine spans={[title]} />
+        {lines.map((line, i) => (
+          <PreviewLine key={i} spans={line} />
+        ))}
+      </div>
+    </div>
+  )
+}
+
+// Each character gets the width it has in game, so wrapping matches even though the font differs.
+function PreviewLine({ spans }: { spans: TextSpan[] }) {
+  return (
+    <div className="line">
+      {spans.map((span, i) => (
+        <span
+          key={i}
+          style={{
+            color: (span.color && colorToHex(span.color)) ?? PACK_LIST_DESCRIPTION_COLOR,
+            fontWeight: span.bold ? 'bold' : undefined,
+            fontStyle: span.italic ? 'italic' : undefined,
+            textDecoration: [span.underlined && 'underline', span.strikethrough && 'line-through'].filter(Boolean).join(' ') || undefined,
+          }}
+        >
+          {Array.from(span.text).map((ch, j) => (
+            <span key={j} style={{ width: charAdvance(ch, span.bold) * SCALE }}>
+              {span.obfuscated && ch !== ' ' ? '▒' : ch}
+            </span>
+          ))}
+        </span>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,69 @@
+import { useState } from 'react'
+
+export type EditLock =
+  | { status: 'editing' }
+  // Another tab is editing this project; this one follows its saves.
+  | { status: 'readonly'; reason: 'other-tab' }
+  // A save was refused because the stored project is newer (or gone); unsaved edits are still in this tab.
+  | { status: 'readonly'; reason: 'stale' | 'deleted' }
+
+type Props = {
+  lock: EditLock
+  onTakeOver: () => Promise<void>
+  onKeepCopy: () => Promise<void>
+}
+
+export default function EditLockBanner({ lock, onTakeOver, onKeepCopy }: Props) {
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  if (lock.status === 'editing') return null
+
+  async function run(action: () => Promise<void>) {
+    setError(null)
+    setBusy(true)
+    try {
+      await action()
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <section className="panel" style={{ borderColor: 'orange' }}>
+      {lock.reason === 'other-tab' && (
+        <p style={{ marginTop: 0 }}>
+          This project is open for editing in another tab. It is read-only here and follows that tab's saves.
+        </p>
+      )}
+      {lock.reason === 'stale' && (
+        <p style={{ marginTop: 0 }}>
+          This project was changed in another tab, so the edits made here were not saved. Keep them as a new project,
+          or discard them and continue from the latest saved version.
+        </p>
+      )}
+      {lock.reason === 'deleted' && (
+        <p style={{ marginTop: 0 }}>
+          This project was deleted in another tab. Keep what is open here as a new project, or open another one.
+        </p>
+      )}
+
+      <div className="row" style={{ gap: 8, justifyContent: 'center' }}>
+        {lock.reason !== 'other-tab' && (
+          <button type="button" disabled={busy} onClick={() => void run(onKeepCopy)}>
+            Keep as New Project
+          </button>
+        )}
+        {lock.reason !== 'deleted' && (
+          <button type="button" disabled={busy} onClick={() => void run(onTakeOver)}>
+            {lock.reason === 'stale' ? 'Discard and Load Latest' : 'Take Over Editing'}
+          </button>
+        )}
+      </div>
+
+      {error && <p style={{ color: 'tomato', marginBottom: 0 }}>{error}</p>}
+    </section>
+  )
+}
@@ -0,0 +1,131 @@
+import { useState } from 'react'
+import { buildServerPropertiesSnippet } from '../lib/resourcepack/hosting'
+import { formatSize } from '../lib/resourcepack/analyzer'
+import type { CompressionReport } from '../lib/resourcepack/compression'
+
+export type ExportResult = {
+  fileName: string
+  size: number
+  sha1: string
+  packId: string
+  deterministic: boolean
+  report: CompressionReport
+}
+
+type Props = {
+  result: ExportResult
+  onClose: () => void
+}
+
+export default function ExportDialog({ result, onClose }: Props) {
+  const [url, setUrl] = useState(`https://example.com/${result.fileName}`)
+  const [copied, setCopied] = useState(false)
+
+  const snippet = buildServerPropertiesSnippet({ url, sha1: result.sha1, id: result.packId })
+
+  function copySnippet() {
+    navigator.clipboard.writeText(snippet).then(
+      () => setCopied(true),
+      () => setCopied(false),
+    )
+  }
+
+  return (
+    <div className="export-dialog" role="dialog" aria-label="Export details">
+      <div className="row" style={{ justifyContent: 'space-between', alignItems: 'center' }}>
+        <h3 style={{ margin: 0 }}>Exported {result.fileName}</h3>
+        <button type="button" onClick={onClose} style={{ padding: '4px 8px', fontSize: '8px' }}>
+          Close
+        </button>
+      </div>
+
+      <ul style={{ fontSize: '0.9em' }}>
+        <li><strong>Size:</strong> {formatSize(result.size)}</li>
+        <li><strong>SHA-1:</strong> <code>{result.sha1}</code></li>
+        <li><strong>Pack id:</strong> <code>{result.packId}</code></li>
+      </ul>
+
+      <CompressionTable report={result.report} />
+
+      {!result.deterministic && (
+        <p style={{ color: 'orange', fontSize: '0.9em' }}>
+          Reproducible export was off: exporting again will produce a different SHA-1 even if nothing changed.
+        </p>
+      )}
+
+      <label>
+        Download URL (where the server will host the ZIP)
+        <input value={url} onChange={(e) => { setUrl(e.target.value); setCopied(false) }} />
+      </label>
+
+      <label style={{ marginTop: 12 }}>
+        server.properties
+        <textarea
+          readOnly
+          value={snippet}
+          rows={3}
+          spellCheck={false}
+          style={{ fontFamily: 'monospace', resize: 'vertical' }}
+        />
+      </label>
+
+      <div className="row" style={{ gap: 8, marginTop: 8, alignItems: 'center' }}>
+        <button type="button" onClick={copySnippet}>
+          Copy snippet
+        </button>
+        {copied && <span style={{ color: 'var(--mc-accent)' }}>Copied!</span>}
+      </div>
+
+      <style>{`
+        .export-dialog {
+          margin-top: 16px;
+          padding: 12px;
+          background: rgba(0, 0, 0, 0.25);
+          border-radius: 2px;
+          text-align: left;
+        }
+      `}</style>
+    </div>
+  )
+}
+
+function CompressionTable({ report }: { report: CompressionReport }) {
+  const rows = Object.entries(report.byType).sort((a, b) => b[1].size - a[1].size)
+
+  return (
+    <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.9em', marginBottom: 12 }}>
+      <thead>
+        <tr style={{ borderBottom: '1px solid var(--mc-border)' }}>
+          <th style={{ textAlign: 'left', padding: '8px' }}>Type</th>
+          <th style={{ textAlign: 'right', padding: '8px' }}>Files</th>
+          <th style={{ textAlign: 'right', padding: '8px' }}>Before</th>
+          <th style={{ textAlign: 'right', padding: '8px' }}>After</th>
+          <th style={{ textAlign: 'right', padding: '8px' }}>Saved</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(([type, data]) => (
+          <tr key={type}>
+            <td style={{ padding: '8px' }}>.{type}</td>
+            <td style={{ textAlign: 'right', padding: '8px' }}>{data.count}</td>
+            <td style={{ textAlign: 'right', padding: '8px' }}>{formatSize(data.size)}</td>
+            <td style={{ textAlign: 'right', padding: '8px' }}>{formatSize(data.compressedSize)}</td>
+            <td style={{ textAlign: 'right', padding: '8px' }}>{savedPercent(data.size, data.compressedSize)}</td>
+          </tr>
+        ))}
+        <tr style={{ borderTop: '1px solid var(--mc-border)' }}>
+          <td style={{ padding: '8px' }}><strong>Total</strong></td>
+          <td />
+          <td style={{ textAlign: 'right', padding: '8px' }}>{formatSize(report.totalSize)}</td>
+          <td style={{ textAlign: 'right', padding: '8px' }}>{formatSize(report.compressedSize)}</td>
+          <td style={{ textAlign: 'right', padding: '8px' }}>{savedPercent(report.totalSize, report.compressedSize)}</td>
+        </tr>
+      </tbody>
+    </table>
+  )
+}
+
+function savedPercent(before: number, after: number): string {
+  if (before === 0) return '-'
+  return `${Math.round((1 - after / before) * 100)}%`
+}
@@ -1,11 +1,12 @@
 import { useState, useMemo } from 'react'
 import type { ResourcePack } from '../lib/resourcepack/types'
-import { vfsDelete } from '../lib/resourcepack/vfs'
+import { cloneVfs, vfsDelete } from '../lib/resourcepack/vfs'
 import { formatSize } from '../lib/resourcepack/analyzer'
+import { describeOverlayRange, readOverlays } from '../lib/resourcepack/overlays'
 
 type Props = {
   pack: ResourcePack
-  onPackChange: (pack: ResourcePack) => void
+  onPackChange: (pack: ResourcePack, label?: string) => void
   onFileSelect?: (path: string) => void
 }
 
@@ -25,6 +26,9 @@ export default function FileBrowser({ pack, onPackChange, onFileSelect }: Props)
     return buildFileTree(Array.from(pack.files.keys()), pack.files)
   }, [pack.files])
 
+  // Top-level folders listed in pack.mcmeta overlays.entries.
+  const overlays = useMemo(() => new Map(readOverlays(pack).map((o) => [o.directory, o])), [pack])
+
   const filteredTree = useMemo(() => {
     if (!filter) return fileTree
     return filterTree(fileTree, filter.toLowerCase())
@@ -43,9 +47,9 @@ export default function FileBrowser({ pack, onPackChange, onFileSelect }: Props)
   function deleteFile(path: string) {
     if (!confirm(`Delete ${path}?`)) return
 
-    const files = new Map(pack.files)
+    const files = cloneVfs(pack.files)
     vfsDelete(files, path)
-    onPackChange({ ...pack, files })
+    onPackChange({ ...pack, files }, `Deleted ${path}`)
   }
 
   function renderNode(node: FileNode, depth: number = 0): React.JSX.Element {
@@ -53,6 +57,7 @@ export default function FileBrowser({ pack, onPackChange, onFileSelect }: Props)
     const paddingLeft = depth * 20
 
     if (node.type === 'folder') {
+      const overlay = depth === 0 ? overlays.get(node.path) : undefined
       return (
         <div key={node.path}>
           <div
@@ -63,6 +68,11 @@ export default function FileBrowser({ pack, onPackChange, onFileSelect }: Props)
             <span className="icon">{isExpanded ? '📂' : '📁'}</span>
             <span className="name">{node.name}</span>
             <span className="count">({Array.isArray(node.children) ? node.children.length : 0})</span>
+            {overlay && (
+              <span className="overlay-badge" title={`Overlay for ${describeOverlayRange(overlay)}`}>
+                overlay · {describeOverlayRange(overlay)}
+              </span>
+            )}
           </div>
           {isExpanded && node.children && Array.isArray(node.children) && (
             <div className="folder-children">
@@ -198,6 +208,15 @@ export default function FileBrowser({ pack, onPackChange, onFileSelect }: Props)
           opacity: 1;
         }
 
+        .file-browser-item .overlay-badge {
+          flex-shrink: 0;
+          padding: 1px 6px;
+          font-size: 0.75em;
+          border-radius: 2px;
+          background: rgba(93, 187, 99, 0.2);
+          color: var(--mc-accent);
+        }
+
         .folder-children {
           /* No additional styling needed */
         }
@@ -0,0 +1,226 @@
+import { useEffect, useRef, useState } from 'react'
+import type { ResourcePack, Vfs } from '../lib/resourcepack/types'
+import { importDirectoryHandle, pickDirectory } from '../lib/resourcepack/folder'
+import {
+  findSyncConflicts,
+  planInitialSync,
+  pushFolderSync,
+  resolveSyncConflicts,
+  startFolderSync,
+  type FolderSync,
+  type SyncConflict,
+  type SyncPlan,
+} from '../lib/resourcepack/sync'
+import { isAbortError } from '../lib/resourcepack/tasks'
+import ProgressBar from './ProgressBar'
+
+type Props = {
+  pack: ResourcePack
+  onPackChange: (pack: ResourcePack, label?: string) => void
+}
+
+export default function FolderSyncPanel({ pack, onPackChange }: Props) {
+  const [folderName, setFolderName] = useState<string | null>(null)
+  const [pendingPlan, setPendingPlan] = useState<{ dir: FileSystemDirectoryHandle; plan: SyncPlan; files: Vfs } | null>(null)
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([])
+  const [status, setStatus] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [progress, setProgress] = useState<{ label: string; done: number; total: number } | null>(null)
+
+  // Pushes are async and must not overlap; the ref always holds the state the next push starts from.
+  const syncRef = useRef<FolderSync | null>(null)
+  const latestFiles = useRef<Vfs>(pack.files)
+  const pushing = useRef(false)
+  const pushAgain = useRef(false)
+
+  useEffect(() => {
+    latestFiles.current = pack.files
+    if (folderName && conflicts.length === 0) void flush()
+  }, [pack, folderName, conflicts])
+
+  // `resolving`: conflicts the user chose to overwrite with the pack's version on this push.
+  async function flush(resolving: SyncConflict[] | null = null) {
+    if (pushing.current) {
+      pushAgain.current = true
+      return
+    }
+    pushing.current = true
+    try {
+      do {
+        pushAgain.current = false
+        const sync = syncRef.current
+        if (!sync) return
+        const result = resolving
+          ? await resolveSyncConflicts(sync, latestFiles.current, resolving)
+          : await pushFolderSync(sync, latestFiles.current)
+        resolving = null
+        if (result.conflicts.length > 0) {
+          setConflicts(result.conflicts)
+          return
+        }
+        syncRef.current = result.sync
+        if (result.written + result.deleted > 0) {
+          setStatus(`Wrote ${result.written}, deleted ${result.deleted} at ${new Date().toLocaleTimeString()}`)
+        }
+      } while (pushAgain.current)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+    } finally {
+      pushing.current = false
+    }
+  }
+
+  async function connect() {
+    setError(null)
+    try {
+      const dir = await pickDirectory('readwrite')
+      const files = pack.files
+      setProgress({ label: `Comparing with ${dir.name}`, done: 0, total: 0 })
+      const plan = await planInitialSync(dir, files, (done, total) =>
+        setProgress({ label: `Comparing with ${dir.name}`, done, total }),
+      )
+      // Mirroring deletes whatever the pack doesn't have, so a populated folder needs an explicit OK.
+      if (plan.delete.length > 0) setPendingPlan({ dir, plan, files })
+      else await start(dir, plan, files)
+    } catch (e) {
+      if (!isAbortError(e)) setError(e instanceof Error ? e.message : String(e))
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  // `files` is what the plan was made from; edits made since then go out with the first regular push.
+  async function start(dir: FileSystemDirectoryHandle, plan: SyncPlan, files: Vfs) {
+    setPendingPlan(null)
+    setProgress({ label: `Writing to ${dir.name}`, done: 0, total: 0 })
+    try {
+      syncRef.current = await startFolderSync(dir, files, plan, (done, total) =>
+        setProgress({ label: `Writing to ${dir.name}`, done, total }),
+      )
+      setConflicts([])
+      setFolderName(dir.name)
+      setStatus(`Wrote ${plan.write.length}, deleted ${plan.delete.length}`)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  function disconnect() {
+    syncRef.current = null
+    setFolderName(null)
+    setConflicts([])
+    setStatus(null)
+  }
+
+  async function checkFolder() {
+    const sync = syncRef.current
+    if (!sync) return
+    setError(null)
+    try {
+      const found = await findSyncConflicts(sync)
+      setConflicts(found)
+      if (found.length === 0) setStatus('Folder matches the last sync')
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+    }
+  }
+
+  async function overwriteFolder() {
+    const resolving = conflicts
+    setConflicts([])
+    await flush(resolving)
+  }
+
+  async function reloadFromFolder() {
+    const sync = syncRef.current
+    if (!sync) return
+    setError(null)
+    try {
+      const { pack: loaded } = await importDirectoryHandle(sync.dir, { detectRoot: false })
+      // Only the folder's current contents are ours now: restart from a clean mirror of them.
+      syncRef.current = await startFolderSync(sync.dir, loaded.files, { write: [], delete: [] })
+      latestFiles.current = loaded.files
+      onPackChange({ ...loaded, name: pack.name }, `Reloaded from folder ${sync.dir.name}`)
+      setConflicts([])
+      setStatus('Reloaded pack from folder')
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+    }
+  }
+
+  return (
+    <section className="panel">
+      <h2 style={{ marginTop: 0 }}>Folder Sync</h2>
+      <p style={{ marginTop: 0, opacity: 0.85 }}>
+        Pick a folder inside <code>.minecraft/resourcepacks/</code> and every edit is written to it straight away.
+        Press F3+T in game to reload.
+      </p>
+
+      {!folderName && !pendingPlan && (
+        <button type="button" disabled={!!progress} onClick={() => void connect()}>
+          Choose folder…
+        </button>
+      )}
+
+      {pendingPlan && (
+        <div style={{ textAlign: 'left' }}>
+          <p style={{ color: 'orange' }}>
+            <strong>{pendingPlan.dir.name}</strong> already has {pendingPlan.plan.delete.length} file(s) that are not
+            in this pack. Syncing deletes them and writes {pendingPlan.plan.write.length} file(s).
+          </p>
+          <div className="row" style={{ gap: 8 }}>
+            <button type="button" onClick={() => void start(pendingPlan.dir, pendingPlan.plan, pendingPlan.files)}>
+              Replace folder contents
+            </button>
+            <button type="button" onClick={() => setPendingPlan(null)}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {folderName && (
+        <div className="row" style={{ gap: 8, alignItems: 'center' }}>
+          <span>
+            Syncing to <strong>{folderName}</strong>
+            {status && <span style={{ opacity: 0.8 }}> — {status}</span>}
+          </span>
+          <button type="button" onClick={() => void checkFolder()}>
+            Check for outside changes
+          </button>
+          <button type="button" onClick={disconnect}>
+            Stop syncing
+          </button>
+        </div>
+      )}
+
+      {conflicts.length > 0 && (
+        <div style={{ marginTop: 12, textAlign: 'left' }}>
+          <p style={{ color: 'orange', marginBottom: 4 }}>
+            {conflicts.length} file(s) changed outside the app; syncing is paused.
+          </p>
+          <ul style={{ fontSize: '0.85em', maxHeight: 160, overflowY: 'auto' }}>
+            {conflicts.map((c) => (
+              <li key={c.path}>
+                <code>{c.path}</code> — {c.reason} on disk
+              </li>
+            ))}
+          </ul>
+          <div className="row" style={{ gap: 8 }}>
+            <button type="button" onClick={() => void overwriteFolder()}>
+              Overwrite with pack
+            </button>
+            <button type="button" onClick={() => void reloadFromFolder()}>
+              Reload pack from folder
+            </button>
+          </div>
+        </div>
+      )}
+
+      {progress && <ProgressBar label={progress.label} done={progress.done} total={progress.total} />}
+      {error && <p style={{ color: 'tomato' }}>{error}</p>}
+    </section>
+  )
+}
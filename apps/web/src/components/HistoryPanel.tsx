@@ -0,0 +1,92 @@
+import { useState } from 'react'
+import { canRedo, canUndo, type PackHistory } from '../lib/resourcepack/history'
+
+type Props = {
+  history: PackHistory
+  onUndo: () => void
+  onRedo: () => void
+  onJump: (index: number) => void
+}
+
+export default function HistoryPanel({ history, onUndo, onRedo, onJump }: Props) {
+  const [expanded, setExpanded] = useState(false)
+  const current = history.entries[history.index]
+
+  return (
+    <section className="panel">
+      <div className="row" style={{ gap: 8, alignItems: 'center', justifyContent: 'space-between' }}>
+        <h2 style={{ margin: 0 }}>History</h2>
+        <div className="row" style={{ gap: 8 }}>
+          <button type="button" disabled={!canUndo(history)} onClick={onUndo} title="Undo (Ctrl+Z)">
+            Undo
+          </button>
+          <button type="button" disabled={!canRedo(history)} onClick={onRedo} title="Redo (Ctrl+Shift+Z)">
+            Redo
+          </button>
+          <button type="button" onClick={() => setExpanded(!expanded)}>
+            {expanded ? 'Hide' : 'Show'} History ({history.entries.length})
+          </button>
+        </div>
+      </div>
+
+      <p style={{ marginBottom: 0, opacity: 0.85 }}>
+        <strong>Current:</strong> {current.label}
+      </p>
+
+      {expanded && (
+        <ol className="history-list">
+          {history.entries.map((entry, i) => (
+            <li
+              key={`${entry.timestamp}-${i}`}
+              className={[i === history.index ? 'current' : '', i > history.index ? 'undone' : ''].join(' ')}
+            >
+              <button type="button" disabled={i === history.index} onClick={() => onJump(i)}>
+                {entry.label}
+              </button>
+              <span className="time">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <style>{`
+        .history-list {
+          margin: 12px 0 0;
+          padding-left: 24px;
+          max-height: 240px;
+          overflow-y: auto;
+          text-align: left;
+        }
+
+        .history-list li {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          padding: 2px 0;
+        }
+
+        .history-list li button {
+          flex: 1;
+          text-align: left;
+          padding: 4px 8px;
+          font-size: 8px;
+        }
+
+        .history-list li.current button {
+          background: var(--mc-accent);
+          color: #000000;
+        }
+
+        .history-list li.undone {
+          opacity: 0.5;
+        }
+
+        .history-list .time {
+          flex-shrink: 0;
+          font-size: 0.8em;
+          opacity: 0.7;
+        }
+      `}</style>
+    </section>
+  )
+}
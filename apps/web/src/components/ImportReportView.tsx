@@ -0,0 +1,55 @@
+import type { ImportReport } from '../lib/resourcepack/sanitize'
+import { formatSize } from '../lib/resourcepack/analyzer'
+
+type Props = {
+  source: string
+  report: ImportReport
+  onClose: () => void
+}
+
+export default function ImportReportView({ source, report, onClose }: Props) {
+  const hasIssues = report.skipped.length > 0 || report.renamed.length > 0
+
+  return (
+    <div style={{ marginTop: 12, padding: 12, background: 'rgba(0,0,0,0.25)', borderRadius: 2, textAlign: 'left' }}>
+      <div className="row" style={{ justifyContent: 'space-between', alignItems: 'center' }}>
+        <strong>Imported {source}</strong>
+        <button type="button" onClick={onClose} style={{ padding: '4px 8px', fontSize: '8px' }}>
+          Close
+        </button>
+      </div>
+
+      <p style={{ margin: '8px 0', fontSize: '0.9em' }}>
+        {report.imported} of {report.entries} entries imported ({formatSize(report.totalSize)})
+        {report.skipped.length > 0 && <>, <span style={{ color: 'orange' }}>{report.skipped.length} skipped</span></>}
+        {report.renamed.length > 0 && <>, {report.renamed.length} path(s) cleaned up</>}
+      </p>
+      {report.root && (
+        <p style={{ margin: '8px 0', fontSize: '0.9em' }}>
+          Found pack.mcmeta in <code>{report.root}</code>; that folder is now the pack root.
+        </p>
+      )}
+      {report.packRoots.length === 0 && (
+        <p style={{ margin: '8px 0', fontSize: '0.9em', color: 'orange' }}>No pack.mcmeta found in this archive.</p>
+      )}
+
+      {hasIssues && (
+        <details>
+          <summary>Details</summary>
+          <ul style={{ fontSize: '0.85em', maxHeight: 200, overflowY: 'auto' }}>
+            {report.skipped.map((s, i) => (
+              <li key={`s-${i}`}>
+                <code>{s.path}</code> — skipped: {s.reason}
+              </li>
+            ))}
+            {report.renamed.map((r, i) => (
+              <li key={`r-${i}`}>
+                <code>{r.from}</code> → <code>{r.to}</code>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,303 @@
+import { useMemo, useState } from 'react'
+import {
+  describeOverlayRange,
+  effectiveFileSet,
+  isValidOverlayDirectory,
+  overlayBounds,
+  overlayFileCount,
+  overlayFromRange,
+  readOverlays,
+  removeOverlay,
+  renameOverlay,
+  writeOverlays,
+  type OverlayEntry,
+} from '../lib/resourcepack/overlays'
+import type { ResourcePack } from '../lib/resourcepack/types'
+import { LATEST_RELEASE, describePackFormat, formatToString, parseFormatText } from '../lib/resourcepack/versioning'
+
+type Props = {
+  pack: ResourcePack
+  onPackChange: (pack: ResourcePack, label?: string) => void
+  // Overlay directory the tools write into; null for the base pack.
+  target: string | null
+  onTargetChange: (directory: string | null) => void
+}
+
+type Draft = {
+  // Directory being edited, or null when adding a new entry.
+  editing: string | null
+  directory: string
+  from: string
+  to: string
+}
+
+const MAX_PREVIEW_FILES = 200
+
+export default function OverlaysPanel({ pack, onPackChange, target, onTargetChange }: Props) {
+  const [expanded, setExpanded] = useState(false)
+  const [draft, setDraft] = useState<Draft | null>(null)
+  const [previewFormat, setPreviewFormat] = useState(String(LATEST_RELEASE.packFormat))
+  const [error, setError] = useState<string | null>(null)
+
+  const overlays = useMemo(() => readOverlays(pack), [pack])
+  const parsedPreview = parseFormatText(previewFormat)
+  const preview = useMemo(() => {
+    const format = parseFormatText(previewFormat)
+    return expanded && format ? effectiveFileSet(pack, format) : null
+  }, [expanded, pack, previewFormat])
+
+  function update(next: OverlayEntry[], label: string) {
+    setError(null)
+    try {
+      onPackChange(writeOverlays(pack, next), label)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+    }
+  }
+
+  function startEdit(overlay: OverlayEntry) {
+    const bounds = overlayBounds(overlay)
+    setDraft({
+      editing: overlay.directory,
+      directory: overlay.directory,
+      from: bounds ? formatToString(bounds[0]) : '',
+      to: bounds ? formatToString(bounds[1]) : '',
+    })
+  }
+
+  function saveDraft() {
+    if (!draft) return
+    const directory = draft.directory.trim()
+    const from = parseFormatText(draft.from)
+    const to = parseFormatText(draft.to)
+    if (!isValidOverlayDirectory(directory)) {
+      setError('Overlay directories may only use a-z, 0-9, _ and -')
+      return
+    }
+    if (!from || !to) {
+      setError('Enter a format range such as 18 – 22 or 65.1 – 69')
+      return
+    }
+    if (overlays.some((o) => o.directory === directory && o.directory !== draft.editing)) {
+      setError(`There already is an overlay named ${directory}`)
+      return
+    }
+
+    const editing = draft.editing
+    setError(null)
+    try {
+      const entry = overlayFromRange(editing ?? directory, from, to)
+      if (editing) {
+        const edited = writeOverlays(
+          pack,
+          overlays.map((o) => (o.directory === editing ? entry : o)),
+        )
+        onPackChange(renameOverlay(edited, editing, directory), `Edited overlay ${directory}`)
+        if (target === editing) onTargetChange(directory)
+      } else {
+        onPackChange(writeOverlays(pack, [...overlays, entry]), `Added overlay ${directory}`)
+      }
+      setDraft(null)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+    }
+  }
+
+  function move(index: number, delta: number) {
+    const next = [...overlays]
+    const [entry] = next.splice(index, 1)
+    next.splice(index + delta, 0, entry)
+    update(next, `Reordered overlay ${entry.directory}`)
+  }
+
+  function remove(overlay: OverlayEntry) {
+    const count = overlayFileCount(pack, overlay.directory)
+    if (!confirm(`Remove overlay ${overlay.directory}?`)) return
+    const deleteFiles = count > 0 && confirm(`Also delete the ${count} files in ${overlay.directory}/?`)
+    setError(null)
+    try {
+      onPackChange(removeOverlay(pack, overlay.directory, deleteFiles), `Removed overlay ${overlay.directory}`)
+      if (target === overlay.directory) onTargetChange(null)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+    }
+  }
+
+  const fromOverlays = preview?.filter((f) => f.source !== '') ?? []
+
+  return (
+    <section className="panel">
+      <div className="row" style={{ gap: 8, alignItems: 'center', justifyContent: 'space-between' }}>
+        <h2 style={{ margin: 0 }}>Overlays</h2>
+        <div className="row" style={{ gap: 8, alignItems: 'center' }}>
+          <label className="row" style={{ gap: 8, alignItems: 'center' }}>
+            Tools edit
+            <select value={target ?? ''} onChange={(e) => onTargetChange(e.target.value || null)}>
+              <option value="">Base pack</option>
+              {overlays.map((o) => (
+                <option key={o.directory} value={o.directory}>
+                  Overlay {o.directory}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button type="button" onClick={() => setExpanded(!expanded)}>
+            {expanded ? 'Hide' : 'Manage'} Overlays ({overlays.length})
+          </button>
+        </div>
+      </div>
+
+      {target && (
+        <p style={{ color: 'var(--mc-accent)', marginBottom: 0 }}>
+          Tools read the base pack with {target}/ on top and write their changes into {target}/.
+        </p>
+      )}
+
+      {expanded && (
+        <>
+          <p style={{ opacity: 0.8 }}>
+            Overlay directories hold files that replace the base pack's for a range of pack formats. Later entries win.
+          </p>
+
+          {overlays.length > 0 && (
+            <ul className="overlay-list">
+              {overlays.map((o, i) => (
+                <li key={o.directory} className={o.directory === target ? 'current' : ''}>
+                  <span className="info">
+                    <strong>{o.directory}/</strong>
+                    <small>
+                      {describeOverlayRange(o)} · {overlayFileCount(pack, o.directory)} files
+                    </small>
+                  </span>
+                  <span className="row" style={{ gap: 4 }}>
+                    <button type="button" disabled={i === 0} onClick={() => move(i, -1)} title="Move up">
+                      ↑
+                    </button>
+                    <button type="button" disabled={i === overlays.length - 1} onClick={() => move(i, 1)} title="Move down">
+                      ↓
+                    </button>
+                    <button type="button" onClick={() => startEdit(o)}>
+                      Edit
+                    </button>
+                    <button type="button" onClick={() => remove(o)}>
+                      Remove
+                    </button>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {draft ? (
+            <div className="grid" style={{ marginTop: 12 }}>
+              <label>
+                Directory
+                <input
+                  value={draft.directory}
+                  placeholder="e.g. legacy_models"
+                  onChange={(e) => setDraft({ ...draft, directory: e.target.value })}
+                />
+              </label>
+              <label>
+                From format
+                <input value={draft.from} placeholder="e.g. 34" onChange={(e) => setDraft({ ...draft, from: e.target.value })} />
+              </label>
+              <label>
+                To format
+                <input value={draft.to} placeholder="e.g. 45" onChange={(e) => setDraft({ ...draft, to: e.target.value })} />
+              </label>
+              <div className="row" style={{ gap: 8, alignItems: 'end' }}>
+                <button type="button" className="primary" onClick={saveDraft}>
+                  {draft.editing ? 'Save Overlay' : 'Add Overlay'}
+                </button>
+                <button type="button" onClick={() => setDraft(null)}>
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              type="button"
+              style={{ marginTop: 12 }}
+              onClick={() => setDraft({ editing: null, directory: '', from: '', to: '' })}
+            >
+              New Overlay
+            </button>
+          )}
+
+          <div style={{ marginTop: 16 }}>
+            <label className="row" style={{ gap: 8, alignItems: 'center' }}>
+              Preview for format
+              <input value={previewFormat} onChange={(e) => setPreviewFormat(e.target.value)} style={{ maxWidth: 100 }} />
+              <small style={{ opacity: 0.8 }}>{parsedPreview ? describePackFormat(parsedPreview) : 'Enter a format'}</small>
+            </label>
+            {preview && (
+              <>
+                <p style={{ marginBottom: 4 }}>
+                  {preview.length} files; {fromOverlays.length} from overlays
+                  {overlays.length > 0 &&
+                    ` (${overlays.filter((o) => fromOverlays.some((f) => f.source === o.directory)).map((o) => o.directory).join(', ') || 'none active'})`}
+                </p>
+                {fromOverlays.length > 0 && (
+                  <ul className="overlay-preview">
+                    {fromOverlays.slice(0, MAX_PREVIEW_FILES).map((f) => (
+                      <li key={f.path}>
+                        {f.path} <span style={{ opacity: 0.6 }}>← {f.source}/</span>
+                      </li>
+                    ))}
+                    {fromOverlays.length > MAX_PREVIEW_FILES && <li>… and {fromOverlays.length - MAX_PREVIEW_FILES} more</li>}
+                  </ul>
+                )}
+              </>
+            )}
+          </div>
+        </>
+      )}
+
+      {error && <p style={{ color: 'tomato', marginBottom: 0 }}>{error}</p>}
+
+      <style>{`
+        .overlay-list {
+          list-style: none;
+          margin: 12px 0 0;
+          padding: 0;
+          text-align: left;
+        }
+
+        .overlay-list li {
+          display: flex;
+          align-items: center;
+          gap: 12px;
+          padding: 6px 4px;
+          border-bottom: 1px solid rgba(255, 255, 255, 0.1);
+        }
+
+        .overlay-list li.current {
+          background: rgba(93, 187, 99, 0.15);
+        }
+
+        .overlay-list .info {
+          flex: 1;
+          display: flex;
+          flex-direction: column;
+          gap: 2px;
+        }
+
+        .overlay-list li button {
+          padding: 4px 8px;
+          font-size: 8px;
+        }
+
+        .overlay-preview {
+          margin: 4px 0 0;
+          padding-left: 16px;
+          max-height: 200px;
+          overflow-y: auto;
+          text-align: left;
+          font-family: monospace;
+          font-size: 0.85em;
+        }
+      `}</style>
+    </section>
+  )
+}
@@ -0,0 +1,108 @@
+import { useState } from 'react'
+import { MIN_FORMAT_FIELDS_FORMAT, type FormatRange, type PackSettings } from '../lib/resourcepack/metadata'
+import { describeFormatRange, formatToString, parseFormatText, type PackFormatValue } from '../lib/resourcepack/versioning'
+
+type Props = {
+  settings: PackSettings
+  onSettingsChange: (next: PackSettings) => void
+}
+
+// supported_formats and min_format/max_format: the versions a pack declares it works on besides pack_format.
+export default function PackCompatibilityFields({ settings, onSettingsChange }: Props) {
+  const supported = settings.supportedFormats ?? null
+  const minFormat = settings.minFormat ?? null
+  const maxFormat = settings.maxFormat ?? null
+
+  function setSupported(edge: keyof FormatRange, text: string) {
+    const value = text.trim() === '' ? null : Math.trunc(Number(text))
+    if (value !== null && (!Number.isFinite(value) || value <= 0)) return
+    const other = edge === 'min' ? supported?.max : supported?.min
+    // A range needs both ends; a single filled-in end means just that format.
+    let next: FormatRange | null = null
+    if (value !== null) next = edge === 'min' ? { min: value, max: other ?? value } : { min: other ?? value, max: value }
+    else if (other !== undefined) next = { min: other, max: other }
+    onSettingsChange({ ...settings, supportedFormats: next })
+  }
+
+  const supportedRange = supported ? describeFormatRange(supported.min, supported.max) : null
+  const declaredRange = minFormat !== null && maxFormat !== null ? describeFormatRange(minFormat, maxFormat) : null
+
+  return (
+    <>
+      <label>
+        supported_formats (optional)
+        <span className="row" style={{ gap: 8, alignItems: 'center' }}>
+          <input
+            type="number"
+            min={1}
+            placeholder="from"
+            value={supported?.min ?? ''}
+            onChange={(e) => setSupported('min', e.target.value)}
+          />
+          –
+          <input
+            type="number"
+            min={1}
+            placeholder="to"
+            value={supported?.max ?? ''}
+            onChange={(e) => setSupported('max', e.target.value)}
+          />
+        </span>
+        <small style={{ opacity: 0.8 }}>{supportedRange ?? 'Formats older clients (before 25w31a) accept besides pack_format.'}</small>
+      </label>
+
+      <label>
+        min_format / max_format (optional)
+        <span className="row" style={{ gap: 8, alignItems: 'center' }}>
+          <FormatInput
+            placeholder="min, e.g. 34"
+            value={minFormat}
+            onChange={(value) => onSettingsChange({ ...settings, minFormat: value })}
+          />
+          –
+          <FormatInput
+            placeholder="max, e.g. 69.0"
+            value={maxFormat}
+            onChange={(value) => onSettingsChange({ ...settings, maxFormat: value })}
+          />
+        </span>
+        <small style={{ opacity: 0.8 }}>
+          {declaredRange ??
+            `Read from 25w31a on; formats ${MIN_FORMAT_FIELDS_FORMAT}+ get both set to pack_format when left empty.`}
+        </small>
+      </label>
+    </>
+  )
+}
+
+// Text rather than a number input so fractional formats ("65.1") keep their minor part.
+function FormatInput({
+  value,
+  placeholder,
+  onChange,
+}: {
+  value: PackFormatValue | null
+  placeholder: string
+  onChange: (value: PackFormatValue | null) => void
+}) {
+  // What is being typed, while it doesn't parse yet (e.g. "65.").
+  const [draft, setDraft] = useState<string | null>(null)
+
+  return (
+    <input
+      value={draft ?? (value === null ? '' : formatToString(value))}
+      placeholder={placeholder}
+      style={{ borderColor: draft !== null ? 'tomato' : undefined }}
+      onChange={(e) => {
+        const parsed = parseFormatText(e.target.value)
+        if (parsed === undefined) {
+          setDraft(e.target.value)
+          return
+        }
+        setDraft(null)
+        onChange(parsed)
+      }}
+      onBlur={() => setDraft(null)}
+    />
+  )
+}
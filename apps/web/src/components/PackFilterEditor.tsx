@@ -0,0 +1,116 @@
+import { useMemo } from 'react'
+import { filterPatternError, filterPatternMatches, type FilterPattern } from '../lib/resourcepack/filter'
+import type { PackSettings } from '../lib/resourcepack/metadata'
+import type { ResourcePack } from '../lib/resourcepack/types'
+
+type Props = {
+  pack: ResourcePack
+  settings: PackSettings
+  onSettingsChange: (next: PackSettings) => void
+}
+
+const MAX_LISTED_MATCHES = 100
+
+// filter.block rows, each with the files of this pack its regexes match.
+export default function PackFilterEditor({ pack, settings, onSettingsChange }: Props) {
+  const patterns = useMemo(() => settings.filter ?? [], [settings.filter])
+
+  const results = useMemo(
+    () =>
+      patterns.map((pattern) => {
+        const error = filterPatternError(pattern)
+        return error ? { error, matches: [] } : { error: null, matches: filterPatternMatches(pattern, pack.files.keys()) }
+      }),
+    [pack, patterns],
+  )
+
+  function update(next: FilterPattern[]) {
+    onSettingsChange({ ...settings, filter: next })
+  }
+
+  function setField(index: number, key: keyof FilterPattern, text: string) {
+    update(patterns.map((p, i) => (i === index ? { ...p, [key]: text === '' ? null : text } : p)))
+  }
+
+  return (
+    <div className="pack-filter">
+      <small style={{ opacity: 0.8 }}>
+        Hides files of packs loaded below this one. Both regexes must match the whole namespace and path (e.g.{' '}
+        <code>minecraft</code> and <code>lang/en_us\.json</code>); an empty field matches anything.
+      </small>
+
+      {patterns.map((pattern, i) => {
+        const result = results[i]
+        return (
+          <div key={i} className="pack-filter-row">
+            <div className="row" style={{ gap: 8, alignItems: 'center' }}>
+              <input
+                placeholder="namespace regex"
+                value={pattern.namespace ?? ''}
+                onChange={(e) => setField(i, 'namespace', e.target.value)}
+              />
+              <input placeholder="path regex" value={pattern.path ?? ''} onChange={(e) => setField(i, 'path', e.target.value)} />
+              <button type="button" onClick={() => update(patterns.filter((_, j) => j !== i))}>
+                Remove
+              </button>
+            </div>
+            {pattern.namespace === null && pattern.path === null && (
+              <small style={{ color: 'orange' }}>With both fields empty, every file of the packs below is hidden.</small>
+            )}
+            {result.error ? (
+              <small style={{ color: 'tomato' }}>{result.error}</small>
+            ) : (
+              <details>
+                <summary>
+                  Matches {result.matches.length} file{result.matches.length === 1 ? '' : 's'} in this pack
+                </summary>
+                <ul>
+                  {result.matches.slice(0, MAX_LISTED_MATCHES).map((path) => (
+                    <li key={path}>{path}</li>
+                  ))}
+                  {result.matches.length > MAX_LISTED_MATCHES && <li>… and {result.matches.length - MAX_LISTED_MATCHES} more</li>}
+                </ul>
+              </details>
+            )}
+          </div>
+        )
+      })}
+
+      <div className="row" style={{ gap: 8 }}>
+        <button type="button" onClick={() => update([...patterns, { namespace: null, path: null }])}>
+          Add Pattern
+        </button>
+      </div>
+
+      <style>{`
+        .pack-filter {
+          display: flex;
+          flex-direction: column;
+          gap: 8px;
+        }
+
+        .pack-filter-row {
+          display: flex;
+          flex-direction: column;
+          gap: 4px;
+          padding-bottom: 8px;
+          border-bottom: 1px solid rgba(255, 255, 255, 0.1);
+        }
+
+        .pack-filter-row input {
+          flex: 1;
+          min-width: 0;
+        }
+
+        .pack-filter-row ul {
+          margin: 4px 0 0;
+          padding-left: 16px;
+          max-height: 160px;
+          overflow-y: auto;
+          font-family: monospace;
+          font-size: 0.85em;
+        }
+      `}</style>
+    </div>
+  )
+}
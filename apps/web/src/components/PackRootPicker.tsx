@@ -0,0 +1,39 @@
+type Props = {
+  source: string
+  roots: string[]
+  onPick: (root: string) => void
+  onKeep: () => void
+  onCancel: () => void
+}
+
+export default function PackRootPicker({ source, roots, onPick, onKeep, onCancel }: Props) {
+  return (
+    <div style={{ marginTop: 12, padding: 12, background: 'rgba(0,0,0,0.25)', borderRadius: 2, textAlign: 'left' }}>
+      <strong>{source} contains {roots.length} packs</strong>
+      <p style={{ margin: '8px 0', fontSize: '0.9em' }}>
+        Each of these folders has its own pack.mcmeta. Pick the one to load; the rest of the archive is dropped.
+        Use the Mixer to import all of them as separate packs.
+      </p>
+
+      <ul style={{ margin: '8px 0', paddingLeft: 20 }}>
+        {roots.map((root) => (
+          <li key={root} className="row" style={{ justifyContent: 'space-between', gap: 12 }}>
+            <code>{root}</code>
+            <button type="button" onClick={() => onPick(root)} style={{ padding: '4px 8px', fontSize: '8px' }}>
+              Use this pack
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="row" style={{ gap: 8 }}>
+        <button type="button" onClick={onKeep}>
+          Keep archive as-is
+        </button>
+        <button type="button" onClick={onCancel}>
+          Cancel import
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,42 @@
+type Props = {
+  label: string
+  done: number
+  total: number
+  onCancel?: () => void
+}
+
+export default function ProgressBar({ label, done, total, onCancel }: Props) {
+  const percent = total > 0 ? Math.min(100, Math.round((done / total) * 100)) : 0
+
+  return (
+    <div className="progress-bar" role="status">
+      <div className="row" style={{ gap: 8, alignItems: 'center', justifyContent: 'space-between' }}>
+        <span>
+          {label} {total > 0 ? `${done} / ${total} (${percent}%)` : '…'}
+        </span>
+        {onCancel && (
+          <button type="button" onClick={onCancel} style={{ padding: '4px 8px', fontSize: '8px' }}>
+            Cancel
+          </button>
+        )}
+      </div>
+      <progress value={total > 0 ? done : undefined} max={total > 0 ? total : undefined} />
+
+      <style>{`
+        .progress-bar {
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+          margin-top: 12px;
+          text-align: left;
+        }
+
+        .progress-bar progress {
+          width: 100%;
+          height: 12px;
+          accent-color: var(--mc-accent);
+        }
+      `}</style>
+    </div>
+  )
+}
@@ -0,0 +1,159 @@
+import { useState } from 'react'
+import { formatSize } from '../lib/resourcepack/analyzer'
+import type { StoredPackMeta } from '../lib/resourcepack/persistence'
+import TexturePreview from './TexturePreview'
+
+type Props = {
+  projects: StoredPackMeta[]
+  activeId: string
+  // Live name of the open project (its settings may not be saved yet).
+  activeName: string
+  onOpen: (id: string) => Promise<void>
+  onCreate: () => Promise<void>
+  onDuplicate: (id: string) => Promise<void>
+  onRename: (id: string, name: string) => Promise<void>
+  onDelete: (id: string) => Promise<void>
+}
+
+export default function ProjectSwitcher({
+  projects,
+  activeId,
+  activeName,
+  onOpen,
+  onCreate,
+  onDuplicate,
+  onRename,
+  onDelete,
+}: Props) {
+  const [expanded, setExpanded] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function run(action: () => Promise<void>) {
+    setError(null)
+    setBusy(true)
+    try {
+      await action()
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  function rename(project: StoredPackMeta) {
+    const current = project.id === activeId ? activeName : project.name
+    const name = prompt('Project name:', current)?.trim()
+    if (!name || name === current) return
+    void run(() => onRename(project.id, name))
+  }
+
+  function remove(project: StoredPackMeta) {
+    const name = project.id === activeId ? activeName : project.name
+    if (!confirm(`Delete project ${name}? This cannot be undone.`)) return
+    void run(() => onDelete(project.id))
+  }
+
+  const active = projects.find((p) => p.id === activeId)
+
+  return (
+    <section className="panel">
+      <div className="row" style={{ gap: 8, alignItems: 'center', justifyContent: 'space-between' }}>
+        <h2 style={{ margin: 0 }}>Project</h2>
+        <div className="row" style={{ gap: 8, alignItems: 'center' }}>
+          <select value={activeId} disabled={busy} onChange={(e) => void run(() => onOpen(e.target.value))}>
+            {!active && <option value={activeId}>{activeName}</option>}
+            {projects.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.id === activeId ? activeName : p.name}
+              </option>
+            ))}
+          </select>
+          <button type="button" disabled={busy} onClick={() => void run(onCreate)}>
+            New
+          </button>
+          <button type="button" onClick={() => setExpanded(!expanded)}>
+            {expanded ? 'Hide' : 'Manage'} Projects ({projects.length})
+          </button>
+        </div>
+      </div>
+
+      {expanded && (
+        <ul className="project-list">
+          {projects.map((p) => (
+            <li key={p.id} className={p.id === activeId ? 'current' : ''}>
+              <span className="thumb">
+                {p.thumbnail ? (
+                  <TexturePreview imageData={p.thumbnail} alt={`${p.name} icon`} maxWidth={32} maxHeight={32} />
+                ) : null}
+              </span>
+              <span className="info">
+                <strong>{p.id === activeId ? activeName : p.name}</strong>
+                <small>
+                  {p.fileCount} files · {formatSize(p.size)} · {new Date(p.updatedAt).toLocaleString()}
+                </small>
+              </span>
+              <span className="row" style={{ gap: 4 }}>
+                <button type="button" disabled={busy || p.id === activeId} onClick={() => void run(() => onOpen(p.id))}>
+                  Open
+                </button>
+                <button type="button" disabled={busy} onClick={() => rename(p)}>
+                  Rename
+                </button>
+                <button type="button" disabled={busy} onClick={() => void run(() => onDuplicate(p.id))}>
+                  Duplicate
+                </button>
+                <button type="button" disabled={busy} onClick={() => remove(p)}>
+                  Delete
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <p style={{ color: 'tomato', marginBottom: 0 }}>{error}</p>}
+
+      <style>{`
+        .project-list {
+          list-style: none;
+          margin: 12px 0 0;
+          padding: 0;
+          max-height: 320px;
+          overflow-y: auto;
+          text-align: left;
+        }
+
+        .project-list li {
+          display: flex;
+          align-items: center;
+          gap: 12px;
+          padding: 6px 4px;
+          border-bottom: 1px solid rgba(255, 255, 255, 0.1);
+        }
+
+        .project-list li.current {
+          background: rgba(93, 187, 99, 0.15);
+        }
+
+        .project-list .thumb {
+          width: 32px;
+          height: 32px;
+          flex-shrink: 0;
+        }
+
+        .project-list .info {
+          flex: 1;
+          display: flex;
+          flex-direction: column;
+          gap: 2px;
+        }
+
+        .project-list li button {
+          padding: 4px 8px;
+          font-size: 8px;
+        }
+      `}</style>
+    </section>
+  )
+}
@@ -2,16 +2,35 @@ import { useRef, useState } from 'react'
 import type { PackSettings } from '../lib/resourcepack/metadata'
 import { applyPackSettings, createEmptyPack, readPackMetadata } from '../lib/resourcepack/metadata'
 import type { ResourcePack } from '../lib/resourcepack/types'
-import { exportZipBytes, importZip, downloadZip } from '../lib/resourcepack/zip'
+import { applyImportRoot, downloadZip, type ImportResult } from '../lib/resourcepack/zip'
+import { packRootName } from '../lib/resourcepack/roots'
+import { importDirectoryHandle, importFolderFiles, pickDirectory, supportsDirectoryPicker } from '../lib/resourcepack/folder'
+import { exportZipInWorker, importZipInWorker, isAbortError, type PackTaskOptions } from '../lib/resourcepack/tasks'
 import { countFiles, vfsDelete, vfsSet } from '../lib/resourcepack/vfs'
 import { RESOURCE_PACK_FORMATS, findById, findByPackFormat } from '../lib/resourcepack/versioning'
 import { PACK_TEMPLATES, createPackFromTemplate } from '../lib/resourcepack/templates'
 import FileBrowser from './FileBrowser'
 import TexturePreview from './TexturePreview'
+import ProgressBar from './ProgressBar'
+import ExportDialog, { type ExportResult } from './ExportDialog'
+import ImportReportView from './ImportReportView'
+import PackRootPicker from './PackRootPicker'
+import PackCompatibilityFields from './PackCompatibilityFields'
+import DescriptionEditor from './DescriptionEditor'
+import PackFilterEditor from './PackFilterEditor'
+import type { ImportReport } from '../lib/resourcepack/sanitize'
+import { derivePackId, sha1Hex } from '../lib/resourcepack/hosting'
+import {
+  DEFAULT_EXPORT_PROFILE,
+  EXPORT_PROFILES,
+  findExportProfile,
+  parseCompressionRules,
+  withOverrides,
+} from '../lib/resourcepack/compression'
 
 type Props = {
   pack: ResourcePack
-  onPackChange: (pack: ResourcePack) => void
+  onPackChange: (pack: ResourcePack, label?: string) => void
   settings: PackSettings
   onSettingsChange: (next: PackSettings) => void
   exportNameSuffix?: string
@@ -30,31 +49,69 @@ export default function SinglePackWorkspace({
   const [dragging, setDragging] = useState(false)
   const [showFileBrowser, setShowFileBrowser] = useState(false)
   const [selectedIconFile, setSelectedIconFile] = useState<File | null>(null)
+  const [progress, setProgress] = useState<{ label: string; done: number; total: number } | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+  const [deterministicExport, setDeterministicExport] = useState(true)
+  const [exportResult, setExportResult] = useState<ExportResult | null>(null)
+  const [importReport, setImportReport] = useState<{ source: string; report: ImportReport } | null>(null)
+  const [pendingImport, setPendingImport] = useState<{ source: string; result: ImportResult } | null>(null)
+  const [profileId, setProfileId] = useState(DEFAULT_EXPORT_PROFILE.id)
+  const [compressionOverrides, setCompressionOverrides] = useState('')
+  const parsedOverrides = parseCompressionRules(compressionOverrides)
+
+  // Runs a worker task with a progress bar; resolves to null if the user cancelled it.
+  async function runWithProgress<T>(label: string, task: (options: PackTaskOptions) => Promise<T>): Promise<T | null> {
+    const controller = new AbortController()
+    abortRef.current = controller
+    setProgress({ label, done: 0, total: 0 })
+    try {
+      return await task({
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress({ label, done, total }),
+      })
+    } catch (e) {
+      if (isAbortError(e)) return null
+      throw e
+    } finally {
+      abortRef.current = null
+      setProgress(null)
+    }
+  }
+
+  function onPickFile(file: File) {
+    return runImport(file.name, (options) => importZipInWorker(file, options))
+  }
+
+  function onPickFolderFiles(fileList: FileList) {
+    const files = Array.from(fileList)
+    const source = files[0]?.webkitRelativePath.split('/')[0] || 'folder'
+    return runImport(`${source}/`, (options) => importFolderFiles(files, options))
+  }
+
+  async function openFolder() {
+    let dir: FileSystemDirectoryHandle
+    try {
+      dir = await pickDirectory()
+    } catch (e) {
+      // Closing the picker rejects with AbortError; that's not worth an error message.
+      if (!isAbortError(e)) setError(e instanceof Error ? e.message : String(e))
+      return
+    }
+    await runImport(`${dir.name}/`, (options) => importDirectoryHandle(dir, options))
+  }
 
-  async function onPickFile(file: File) {
+  async function runImport(source: string, task: (options: PackTaskOptions) => Promise<ImportResult>) {
     setError(null)
     setBusy(true)
     try {
-      const imported = await importZip(file)
-      onPackChange(imported)
-
-      // Best-effort sync settings from imported pack.
-      const meta = readPackMetadata(imported)
-      if (meta) {
-        const known = findByPackFormat(meta.packFormat)
-        onSettingsChange({
-          ...settings,
-          name: imported.name,
-          packFormat: meta.packFormat,
-          versionId: known?.id ?? 'custom',
-          description: meta.description,
-        })
-      } else {
-        onSettingsChange({
-          ...settings,
-          name: imported.name,
-        })
+      const result = await runWithProgress(`Importing ${source}`, task)
+      if (!result) return
+      // An archive or folder bundling several packs: let the user pick one before anything is replaced.
+      if (result.report.packRoots.length > 1) {
+        setPendingImport({ source, result })
+        return
       }
+      finishImport(source, result)
     } catch (e) {
       setError(e instanceof Error ? e.message : String(e))
     } finally {
@@ -62,19 +119,76 @@ export default function SinglePackWorkspace({
     }
   }
 
-  function exportPack() {
-    const withMeta = applyPackSettings(pack, settings)
-    onPackChange(withMeta)
+  function finishImport(source: string, result: ImportResult) {
+    const imported = result.pack
+    setPendingImport(null)
+    setImportReport({ source, report: result.report })
+    onPackChange(imported, `Imported ${source}`)
+
+    // Best-effort sync settings from imported pack.
+    const meta = readPackMetadata(imported)
+    if (meta) {
+      const known = findByPackFormat(meta.packFormat)
+      onSettingsChange({
+        ...settings,
+        name: imported.name,
+        packFormat: meta.packFormat,
+        versionId: known?.id ?? 'custom',
+        description: meta.description,
+        supportedFormats: meta.supportedFormats,
+        minFormat: meta.minFormat,
+        maxFormat: meta.maxFormat,
+        filter: meta.filter,
+      })
+    } else {
+      onSettingsChange({
+        ...settings,
+        name: imported.name,
+      })
+    }
+  }
 
-    const bytes = exportZipBytes(withMeta.files)
-    const suffix = exportNameSuffix ? `-${exportNameSuffix}` : ''
-    downloadZip(bytes, `${withMeta.name}${suffix}.zip`)
+  async function exportPack() {
+    setError(null)
+    setBusy(true)
+    try {
+      // Checked before touching the pack, so a failed export leaves no history entry behind.
+      if (parsedOverrides.errors.length > 0) {
+        throw new Error(`Compression overrides: ${parsedOverrides.errors.join('; ')}`)
+      }
+      const withMeta = applyPackSettings(pack, settings)
+      onPackChange(withMeta, 'Applied pack settings')
+
+      const profile = withOverrides(findExportProfile(profileId) ?? DEFAULT_EXPORT_PROFILE, parsedOverrides.rules)
+
+      const exported = await runWithProgress('Compressing', (options) =>
+        exportZipInWorker(withMeta.files, { deterministic: deterministicExport, profile }, options),
+      )
+      if (!exported) return
+      const { bytes, report } = exported
+      const suffix = exportNameSuffix ? `-${exportNameSuffix}` : ''
+      const fileName = `${withMeta.name}${suffix}.zip`
+      downloadZip(bytes, fileName)
+
+      setExportResult({
+        fileName,
+        size: bytes.byteLength,
+        sha1: await sha1Hex(bytes),
+        packId: await derivePackId(withMeta.name),
+        deterministic: deterministicExport,
+        report,
+      })
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+    } finally {
+      setBusy(false)
+    }
   }
 
   function newEmptyPack() {
     try {
       const next = createEmptyPack(settings)
-      onPackChange(next)
+      onPackChange(next, 'New empty pack')
       if (inputRef.current) inputRef.current.value = ''
     } catch (e) {
       setError(e instanceof Error ? e.message : String(e))
@@ -84,7 +198,7 @@ export default function SinglePackWorkspace({
   function createFromTemplate(templateId: string) {
     try {
       const next = createPackFromTemplate(templateId, settings)
-      onPackChange(next)
+      onPackChange(next, `Created pack from template ${templateId}`)
       if (inputRef.current) inputRef.current.value = ''
       setError(null)
     } catch (e) {
@@ -128,7 +242,7 @@ export default function SinglePackWorkspace({
       const bytes = new Uint8Array(await file.arrayBuffer())
       const withMeta = applyPackSettings(pack, settings)
       vfsSet(withMeta.files, 'pack.png', bytes)
-      onPackChange(withMeta)
+      onPackChange(withMeta, `Set pack icon from ${file.name}`)
     } catch (e) {
       setError(e instanceof Error ? e.message : String(e))
     }
@@ -141,7 +255,7 @@ export default function SinglePackWorkspace({
     try {
       const withMeta = applyPackSettings(pack, settings)
       vfsDelete(withMeta.files, 'pack.png')
-      onPackChange(withMeta)
+      onPackChange(withMeta, 'Removed pack icon')
     } catch (e) {
       setError(e instanceof Error ? e.message : String(e))
     }
@@ -150,7 +264,7 @@ export default function SinglePackWorkspace({
   function applyMetadata() {
     try {
       const next = applyPackSettings(pack, settings)
-      onPackChange(next)
+      onPackChange(next, 'Applied pack settings')
     } catch (e) {
       setError(e instanceof Error ? e.message : String(e))
     }
@@ -198,7 +312,7 @@ export default function SinglePackWorkspace({
         <label>
           Minecraft version
           <select
-            value={settings.versionId}
+            value={findById(settings.versionId)?.id ?? 'custom'}
             onChange={(e) => {
               const id = e.target.value
               if (id === 'custom') {
@@ -211,7 +325,7 @@ export default function SinglePackWorkspace({
               onSettingsChange({ ...settings, versionId: opt.id, packFormat: opt.packFormat })
             }}
           >
-            {RESOURCE_PACK_FORMATS.map((o) => (
+            {[...RESOURCE_PACK_FORMATS].reverse().map((o) => (
               <option key={o.id} value={o.id}>
                 {o.label}
               </option>
@@ -229,14 +343,23 @@ export default function SinglePackWorkspace({
           />
         </label>
 
-        <label>
+        <PackCompatibilityFields settings={settings} onSettingsChange={onSettingsChange} />
+
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 6, textAlign: 'left', gridColumn: '1 / -1' }}>
           pack.mcmeta description
-          <input
+          <DescriptionEditor
             value={settings.description}
-            onChange={(e) => onSettingsChange({ ...settings, description: e.target.value })}
-            placeholder="My pack"
+            onChange={(description) => onSettingsChange({ ...settings, description })}
+            name={settings.name}
+            icon={selectedIconFile || packIcon || null}
+            packFormat={settings.packFormat}
           />
-        </label>
+        </div>
+
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 6, textAlign: 'left', gridColumn: '1 / -1' }}>
+          filter.block (optional)
+          <PackFilterEditor pack={pack} settings={settings} onSettingsChange={onSettingsChange} />
+        </div>
 
         <label>
           pack.png icon (optional)
@@ -305,6 +428,26 @@ export default function SinglePackWorkspace({
           />
         </label>
 
+        <label style={{ flexDirection: 'row', gap: 8, alignItems: 'center' }}>
+          <span>Import folder</span>
+          <input
+            ref={(el) => el?.setAttribute('webkitdirectory', '')}
+            type="file"
+            multiple
+            disabled={busy}
+            onChange={(e) => {
+              if (e.target.files?.length) void onPickFolderFiles(e.target.files)
+              e.target.value = ''
+            }}
+          />
+        </label>
+
+        {supportsDirectoryPicker() && (
+          <button type="button" disabled={busy} onClick={() => void openFolder()}>
+            Open folder…
+          </button>
+        )}
+
         <button type="button" disabled={busy} onClick={newEmptyPack}>
           New empty pack
         </button>
@@ -313,11 +456,74 @@ export default function SinglePackWorkspace({
           Apply settings
         </button>
 
-        <button type="button" disabled={busy} onClick={exportPack}>
+        <button type="button" disabled={busy} onClick={() => void exportPack()}>
           Download ZIP
         </button>
+
+        <label style={{ flexDirection: 'row', gap: 8, alignItems: 'center' }}>
+          <input
+            type="checkbox"
+            checked={deterministicExport}
+            onChange={(e) => setDeterministicExport(e.target.checked)}
+          />
+          <span>Reproducible ZIP (stable SHA-1)</span>
+        </label>
       </div>
 
+      <details style={{ marginTop: 12, textAlign: 'left' }}>
+        <summary>Compression</summary>
+        <div className="grid" style={{ marginTop: 8 }}>
+          <label>
+            Export profile
+            <select value={profileId} onChange={(e) => setProfileId(e.target.value)}>
+              {EXPORT_PROFILES.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label>
+            Per-glob overrides (checked first)
+            <textarea
+              value={compressionOverrides}
+              onChange={(e) => setCompressionOverrides(e.target.value)}
+              rows={3}
+              spellCheck={false}
+              placeholder={'assets/**/sounds/** store\n*.json deflate 9'}
+              style={{ fontFamily: 'monospace', resize: 'vertical' }}
+            />
+            {parsedOverrides.errors.map((err) => (
+              <small key={err} style={{ color: 'tomato' }}>{err}</small>
+            ))}
+          </label>
+        </div>
+      </details>
+
+      {pendingImport && (
+        <PackRootPicker
+          source={pendingImport.source}
+          roots={pendingImport.result.report.packRoots}
+          onPick={(root) =>
+            finishImport(
+              pendingImport.source,
+              applyImportRoot(pendingImport.result, root, packRootName(root) || pendingImport.result.pack.name),
+            )
+          }
+          onKeep={() => finishImport(pendingImport.source, pendingImport.result)}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+      {importReport && (
+        <ImportReportView
+          source={importReport.source}
+          report={importReport.report}
+          onClose={() => setImportReport(null)}
+        />
+      )}
+      {exportResult && <ExportDialog result={exportResult} onClose={() => setExportResult(null)} />}
+
       <div style={{ marginTop: 12, display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
         <p style={{ margin: 0, opacity: 0.85 }}>
           <strong>Loaded:</strong> {pack.name} ({fileCount} files)
@@ -333,7 +539,15 @@ export default function SinglePackWorkspace({
         </div>
       )}
 
-      {busy && <p style={{ marginTop: 12 }}>Working…</p>}
+      {progress && (
+        <ProgressBar
+          label={progress.label}
+          done={progress.done}
+          total={progress.total}
+          onCancel={() => abortRef.current?.abort()}
+        />
+      )}
+      {busy && !progress && <p style={{ marginTop: 12 }}>Working…</p>}
       {error && (
         <p style={{ marginTop: 12, color: 'tomato' }}>
           {error}
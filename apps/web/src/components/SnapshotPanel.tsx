@@ -0,0 +1,245 @@
+import { useEffect, useMemo, useState } from 'react'
+import { formatSize } from '../lib/resourcepack/analyzer'
+import type { PackSettings } from '../lib/resourcepack/metadata'
+import {
+  createSnapshot,
+  deleteSnapshot,
+  listSnapshots,
+  loadSnapshot,
+  type Snapshot,
+  type SnapshotMeta,
+} from '../lib/resourcepack/snapshots'
+import type { ResourcePack, Vfs } from '../lib/resourcepack/types'
+import { diffVfs, hasVfsChanges } from '../lib/resourcepack/vfs'
+
+type Props = {
+  packId: string
+  pack: ResourcePack
+  settings: PackSettings
+  onRestore: (snapshot: Snapshot) => void
+}
+
+// The snapshot's files; the diff against the pack is recomputed as the pack changes.
+type Comparison = {
+  snapshot: SnapshotMeta
+  files: Vfs
+}
+
+const MAX_LISTED_CHANGES = 50
+
+export default function SnapshotPanel({ packId, pack, settings, onRestore }: Props) {
+  const [snapshots, setSnapshots] = useState<SnapshotMeta[]>([])
+  const [expanded, setExpanded] = useState(false)
+  const [name, setName] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [comparison, setComparison] = useState<Comparison | null>(null)
+  const changes = useMemo(() => (comparison ? diffVfs(comparison.files, pack.files) : null), [comparison, pack])
+
+  useEffect(() => {
+    let cancelled = false
+    listSnapshots(packId)
+      .then((list) => {
+        if (!cancelled) setSnapshots(list)
+      })
+      .catch(() => {
+        if (!cancelled) setSnapshots([])
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [packId])
+
+  async function run(action: () => Promise<void>) {
+    setError(null)
+    setBusy(true)
+    try {
+      await action()
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  function take() {
+    const label = name.trim() || `Snapshot ${new Date().toLocaleString()}`
+    void run(async () => {
+      await createSnapshot(packId, label, pack, settings)
+      setSnapshots(await listSnapshots(packId))
+      setName('')
+      setExpanded(true)
+    })
+  }
+
+  function compare(snapshot: SnapshotMeta) {
+    void run(async () => {
+      const loaded = await loadSnapshot(snapshot.id)
+      setComparison({ snapshot, files: loaded.pack.files })
+    })
+  }
+
+  function restore(snapshot: SnapshotMeta) {
+    if (!confirm(`Restore snapshot ${snapshot.name}? The current state stays in the edit history.`)) return
+    void run(async () => {
+      onRestore(await loadSnapshot(snapshot.id))
+      setComparison(null)
+    })
+  }
+
+  function remove(snapshot: SnapshotMeta) {
+    if (!confirm(`Delete snapshot ${snapshot.name}?`)) return
+    void run(async () => {
+      await deleteSnapshot(snapshot.id)
+      setSnapshots(await listSnapshots(packId))
+      if (comparison?.snapshot.id === snapshot.id) setComparison(null)
+    })
+  }
+
+  return (
+    <section className="panel">
+      <div className="row" style={{ gap: 8, alignItems: 'center', justifyContent: 'space-between' }}>
+        <h2 style={{ margin: 0 }}>Snapshots</h2>
+        <div className="row" style={{ gap: 8, alignItems: 'center' }}>
+          <input
+            type="text"
+            value={name}
+            placeholder="Snapshot name"
+            disabled={busy}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') take()
+            }}
+          />
+          <button type="button" disabled={busy} onClick={take}>
+            Take Snapshot
+          </button>
+          <button type="button" onClick={() => setExpanded(!expanded)}>
+            {expanded ? 'Hide' : 'Show'} Snapshots ({snapshots.length})
+          </button>
+        </div>
+      </div>
+
+      {expanded && snapshots.length === 0 && (
+        <p style={{ opacity: 0.7, marginBottom: 0 }}>
+          No snapshots yet. Take one before a risky change such as a version upgrade or a big mix.
+        </p>
+      )}
+
+      {expanded && snapshots.length > 0 && (
+        <ul className="snapshot-list">
+          {snapshots.map((s) => (
+            <li key={s.id} className={comparison?.snapshot.id === s.id ? 'current' : ''}>
+              <span className="info">
+                <strong>{s.name}</strong>
+                <small>
+                  {new Date(s.createdAt).toLocaleString()} · {s.fileCount} files · {formatSize(s.size)}
+                </small>
+              </span>
+              <span className="row" style={{ gap: 4 }}>
+                <button type="button" disabled={busy} onClick={() => compare(s)}>
+                  Compare
+                </button>
+                <button type="button" disabled={busy} onClick={() => restore(s)}>
+                  Restore
+                </button>
+                <button type="button" disabled={busy} onClick={() => remove(s)}>
+                  Delete
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {expanded && comparison && changes && (
+        <div className="snapshot-diff">
+          <div className="row" style={{ gap: 8, alignItems: 'center', justifyContent: 'space-between' }}>
+            <strong>
+              Since {comparison.snapshot.name}:{' '}
+              {!hasVfsChanges(changes)
+                ? 'no changes'
+                : `${changes.added.length} added, ${changes.modified.length} modified, ${changes.deleted.length} deleted`}
+            </strong>
+            <button type="button" onClick={() => setComparison(null)}>
+              Close
+            </button>
+          </div>
+          <ChangeList label="Added" prefix="+" paths={changes.added} />
+          <ChangeList label="Modified" prefix="~" paths={changes.modified} />
+          <ChangeList label="Deleted" prefix="-" paths={changes.deleted} />
+        </div>
+      )}
+
+      {error && <p style={{ color: 'tomato', marginBottom: 0 }}>{error}</p>}
+
+      <style>{`
+        .snapshot-list {
+          list-style: none;
+          margin: 12px 0 0;
+          padding: 0;
+          max-height: 240px;
+          overflow-y: auto;
+          text-align: left;
+        }
+
+        .snapshot-list li {
+          display: flex;
+          align-items: center;
+          gap: 12px;
+          padding: 6px 4px;
+          border-bottom: 1px solid rgba(255, 255, 255, 0.1);
+        }
+
+        .snapshot-list li.current {
+          background: rgba(93, 187, 99, 0.15);
+        }
+
+        .snapshot-list .info {
+          flex: 1;
+          display: flex;
+          flex-direction: column;
+          gap: 2px;
+        }
+
+        .snapshot-list li button,
+        .snapshot-diff button {
+          padding: 4px 8px;
+          font-size: 8px;
+        }
+
+        .snapshot-diff {
+          margin-top: 12px;
+          text-align: left;
+        }
+
+        .snapshot-diff ul {
+          margin: 4px 0 8px;
+          padding-left: 16px;
+          max-height: 160px;
+          overflow-y: auto;
+          font-family: monospace;
+          font-size: 0.85em;
+        }
+      `}</style>
+    </section>
+  )
+}
+
+function ChangeList({ label, prefix, paths }: { label: string; prefix: string; paths: string[] }) {
+  if (paths.length === 0) return null
+  const shown = [...paths].sort().slice(0, MAX_LISTED_CHANGES)
+  return (
+    <div>
+      <small>{label}</small>
+      <ul>
+        {shown.map((path) => (
+          <li key={path}>
+            {prefix} {path}
+          </li>
+        ))}
+        {paths.length > shown.length && <li>… and {paths.length - shown.length} more</li>}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,51 @@
+import { formatSize } from '../lib/resourcepack/analyzer'
+import type { StorageEstimate } from '../lib/resourcepack/persistence'
+
+export type SaveState =
+  | { status: 'idle' }
+  | { status: 'saving' }
+  | { status: 'saved'; at: number }
+  | { status: 'error'; message: string }
+
+type Props = {
+  save: SaveState
+  estimate: StorageEstimate | null
+  onRetry: () => void
+  // Old localStorage saves that couldn't be moved into IndexedDB (see migrateLegacyStorage).
+  migrationProblems: string[]
+  onDismissMigrationProblems: () => void
+}
+
+export default function StorageStatus({ save, estimate, onRetry, migrationProblems, onDismissMigrationProblems }: Props) {
+  const percent = estimate && estimate.quota > 0 ? (estimate.usage / estimate.quota) * 100 : null
+
+  return (
+    <div className="row" style={{ gap: 12, alignItems: 'center', justifyContent: 'center', fontSize: '0.85em' }}>
+      {save.status === 'saving' && <span style={{ opacity: 0.8 }}>Saving…</span>}
+      {save.status === 'saved' && (
+        <span style={{ opacity: 0.8 }}>Saved in browser at {new Date(save.at).toLocaleTimeString()}</span>
+      )}
+      {save.status === 'error' && (
+        <span style={{ color: 'tomato' }}>
+          {save.message}{' '}
+          <button type="button" onClick={onRetry} style={{ padding: '4px 8px', fontSize: '8px' }}>
+            Retry
+          </button>
+        </span>
+      )}
+      {migrationProblems.length > 0 && (
+        <span style={{ color: 'tomato' }}>
+          {migrationProblems.join('; ')}{' '}
+          <button type="button" onClick={onDismissMigrationProblems} style={{ padding: '4px 8px', fontSize: '8px' }}>
+            Dismiss
+          </button>
+        </span>
+      )}
+      {estimate && percent !== null && (
+        <span style={{ opacity: 0.8, color: percent > 90 ? 'orange' : undefined }}>
+          Storage: {formatSize(estimate.usage)} of {formatSize(estimate.quota)} ({percent.toFixed(1)}%)
+        </span>
+      )}
+    </div>
+  )
+}
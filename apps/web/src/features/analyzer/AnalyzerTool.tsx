@@ -1,11 +1,13 @@
-import { useState } from 'react'
+import { useRef, useState } from 'react'
 import type { ResourcePack } from '../../lib/resourcepack/types'
-import { analyzePack, findUnusedFiles, findDuplicateTextures, formatSize, type PackStats } from '../../lib/resourcepack/analyzer'
-import { validatePack, type ValidationIssue } from '../../lib/resourcepack/validation'
+import { formatSize, type PackStats } from '../../lib/resourcepack/analyzer'
+import type { ValidationIssue } from '../../lib/resourcepack/validation'
+import { analyzePackInWorker, isAbortError } from '../../lib/resourcepack/tasks'
+import ProgressBar from '../../components/ProgressBar'
 
 type Props = {
   pack: ResourcePack
-  onPackChange: (pack: ResourcePack) => void
+  onPackChange: (pack: ResourcePack, label?: string) => void
 }
 
 type TabType = 'stats' | 'validation' | 'unused' | 'duplicates'
@@ -17,11 +19,31 @@ export default function AnalyzerTool({ pack }: Props) {
   const [unused, setUnused] = useState<string[] | null>(null)
   const [duplicates, setDuplicates] = useState<Array<{ paths: string[]; size: number }> | null>(null)
 
-  function runAnalysis() {
-    setStats(analyzePack(pack))
-    setValidation(validatePack(pack))
-    setUnused(findUnusedFiles(pack))
-    setDuplicates(findDuplicateTextures(pack))
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  async function runAnalysis() {
+    const controller = new AbortController()
+    abortRef.current = controller
+    setError(null)
+    setProgress({ done: 0, total: 0 })
+
+    try {
+      const analysis = await analyzePackInWorker(pack, {
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress({ done, total }),
+      })
+      setStats(analysis.stats)
+      setValidation(analysis.validation)
+      setUnused(analysis.unused)
+      setDuplicates(analysis.duplicates)
+    } catch (e) {
+      if (!isAbortError(e)) setError(e instanceof Error ? e.message : String(e))
+    } finally {
+      abortRef.current = null
+      setProgress(null)
+    }
   }
 
   return (
@@ -31,10 +53,20 @@ export default function AnalyzerTool({ pack }: Props) {
         Analyze your pack for statistics, validation issues, unused files, and duplicate textures.
       </p>
 
-      <button type="button" onClick={runAnalysis} className="primary">
+      <button type="button" onClick={() => void runAnalysis()} className="primary" disabled={!!progress}>
         Run Analysis
       </button>
 
+      {progress && (
+        <ProgressBar
+          label="Analyzing"
+          done={progress.done}
+          total={progress.total}
+          onCancel={() => abortRef.current?.abort()}
+        />
+      )}
+      {error && <p style={{ color: 'tomato' }}>{error}</p>}
+
       {stats && (
         <>
           <div className="tabs" style={{ marginTop: 16 }}>
@@ -5,7 +5,7 @@ import TexturePreview from '../../components/TexturePreview'
 
 type Props = {
   pack: ResourcePack
-  onPackChange: (pack: ResourcePack) => void
+  onPackChange: (pack: ResourcePack, label?: string) => void
 }
 
 export default function CmdTool({ pack, onPackChange }: Props) {
@@ -36,7 +36,7 @@ export default function CmdTool({ pack, onPackChange }: Props) {
         namespace,
         texturePng: bytes,
       })
-      onPackChange(next)
+      onPackChange(next, `Added CMD ${cmd} to ${itemId}`)
       const modelPath = `${namespace}:item/${itemId}_cmd_${cmd}`
       setOk(`✓ Added CMD ${cmd} for ${itemId}\nModel: ${modelPath}\nIn-game: /give @s ${itemId}[custom_model_data=${cmd}]`)
 
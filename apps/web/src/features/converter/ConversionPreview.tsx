@@ -0,0 +1,179 @@
+import { useMemo, useState } from 'react'
+import { applyFileChanges, changeKey, diffJsonFile, listFileChanges, type FileChange } from '../../lib/resourcepack/changes'
+import type { ConversionResult } from '../../lib/resourcepack/converter'
+import type { ResourcePack } from '../../lib/resourcepack/types'
+
+type Props = {
+  // The pack the conversion ran on.
+  base: ResourcePack
+  result: ConversionResult
+  // The pack was edited since the preview was made; applying is disabled.
+  stale: boolean
+  onApply: (pack: ResourcePack, accepted: number, total: number) => void
+  onClose: () => void
+}
+
+const GROUPS: { kind: FileChange['kind']; label: string; prefix: string }[] = [
+  { kind: 'created', label: 'Created', prefix: '+' },
+  { kind: 'modified', label: 'Modified', prefix: '~' },
+  { kind: 'moved', label: 'Moved', prefix: '→' },
+  { kind: 'deleted', label: 'Deleted', prefix: '-' },
+]
+
+const MAX_LISTED_CHANGES = 500
+const MAX_VALUE_LENGTH = 80
+
+// Dry run of a conversion: every file change with a checkbox, and a JSON diff for modified files.
+export default function ConversionPreview({ base, result, stale, onApply, onClose }: Props) {
+  const changes = useMemo(() => listFileChanges(base.files, result.pack.files), [base, result])
+  const [rejected, setRejected] = useState<Set<string>>(() => new Set())
+  const [opened, setOpened] = useState<string | null>(null)
+
+  const accepted = changes.filter((c) => !rejected.has(changeKey(c)))
+
+  function toggle(keys: string[], accept: boolean) {
+    const next = new Set(rejected)
+    for (const key of keys) {
+      if (accept) next.delete(key)
+      else next.add(key)
+    }
+    setRejected(next)
+  }
+
+  function apply() {
+    const files = applyFileChanges(base.files, result.pack.files, accepted)
+    onApply({ ...base, files }, accepted.length, changes.length)
+  }
+
+  return (
+    <div className="conversion-preview">
+      <div className="row" style={{ gap: 8, alignItems: 'center', justifyContent: 'space-between' }}>
+        <strong>
+          Preview: {changes.length} file change{changes.length === 1 ? '' : 's'}
+        </strong>
+        <span className="row" style={{ gap: 4 }}>
+          <button type="button" onClick={() => setRejected(new Set())}>
+            All
+          </button>
+          <button type="button" onClick={() => setRejected(new Set(changes.map(changeKey)))}>
+            None
+          </button>
+        </span>
+      </div>
+
+      {result.warnings.length > 0 && (
+        <ul style={{ color: 'orange', fontSize: '0.9em' }}>
+          {result.warnings.map((warning, i) => (
+            <li key={i}>{warning}</li>
+          ))}
+        </ul>
+      )}
+
+      {GROUPS.map((group) => {
+        const items = changes.filter((c) => c.kind === group.kind)
+        if (items.length === 0) return null
+        const keys = items.map(changeKey)
+        const all = keys.every((k) => !rejected.has(k))
+        return (
+          <div key={group.kind}>
+            <label className="row" style={{ flexDirection: 'row', gap: 8, alignItems: 'center' }}>
+              <input type="checkbox" checked={all} onChange={() => toggle(keys, !all)} />
+              <small>
+                {group.label} ({items.length})
+              </small>
+            </label>
+            <ul>
+              {items.slice(0, MAX_LISTED_CHANGES).map((change) => {
+                const key = changeKey(change)
+                const diffable = change.kind === 'modified' && change.path.endsWith('.json')
+                return (
+                  <li key={key}>
+                    <label className="row" style={{ flexDirection: 'row', gap: 8, alignItems: 'center' }}>
+                      <input type="checkbox" checked={!rejected.has(key)} onChange={(e) => toggle([key], e.target.checked)} />
+                      <span>
+                        {group.prefix} {key}
+                      </span>
+                      {diffable && (
+                        <button type="button" onClick={() => setOpened(opened === key ? null : key)}>
+                          {opened === key ? 'Hide' : 'Diff'}
+                        </button>
+                      )}
+                    </label>
+                    {diffable && opened === key && <JsonDiff base={base} result={result} path={change.path} />}
+                  </li>
+                )
+              })}
+              {items.length > MAX_LISTED_CHANGES && <li>… and {items.length - MAX_LISTED_CHANGES} more (follow the group checkbox)</li>}
+            </ul>
+          </div>
+        )
+      })}
+
+      {stale && <p style={{ color: 'orange' }}>The pack changed since this preview was made; preview again to apply.</p>}
+      <p style={{ opacity: 0.8, fontSize: '0.9em' }}>
+        Renames and the references to them are separate changes; apply them together to keep the pack consistent.
+      </p>
+
+      <div className="row" style={{ gap: 8 }}>
+        <button type="button" className="primary" disabled={stale || accepted.length === 0} onClick={apply}>
+          Apply {accepted.length} of {changes.length} Changes
+        </button>
+        <button type="button" onClick={onClose}>
+          Discard Preview
+        </button>
+      </div>
+
+      <style>{`
+        .conversion-preview {
+          margin-top: 16px;
+          padding: 12px;
+          background: rgba(0, 0, 0, 0.25);
+          text-align: left;
+        }
+
+        .conversion-preview ul {
+          margin: 4px 0 8px;
+          padding-left: 16px;
+          max-height: 240px;
+          overflow-y: auto;
+          list-style: none;
+          font-family: monospace;
+          font-size: 0.85em;
+        }
+
+        .conversion-preview button {
+          padding: 4px 8px;
+          font-size: 8px;
+        }
+
+        .conversion-preview .json-diff {
+          margin: 4px 0 4px 24px;
+          white-space: pre-wrap;
+          word-break: break-all;
+        }
+      `}</style>
+    </div>
+  )
+}
+
+function JsonDiff({ base, result, path }: { base: ResourcePack; result: ConversionResult; path: string }) {
+  const entries = useMemo(() => diffJsonFile(base.files, result.pack.files, path), [base, result, path])
+  if (!entries) return <div className="json-diff">Not valid JSON on one side; no structural diff.</div>
+  if (entries.length === 0) return <div className="json-diff">Only formatting changed.</div>
+  return (
+    <div className="json-diff">
+      {entries.map((entry, i) => (
+        <div key={i} style={{ color: entry.kind === 'added' ? 'var(--mc-accent)' : entry.kind === 'removed' ? 'tomato' : undefined }}>
+          {entry.kind === 'added' && `+ ${entry.path || '(root)'}: ${formatValue(entry.after)}`}
+          {entry.kind === 'removed' && `- ${entry.path || '(root)'}: ${formatValue(entry.before)}`}
+          {entry.kind === 'changed' && `~ ${entry.path || '(root)'}: ${formatValue(entry.before)} → ${formatValue(entry.after)}`}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function formatValue(value: unknown): string {
+  const text = JSON.stringify(value)
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text
+}
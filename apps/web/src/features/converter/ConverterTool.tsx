@@ -1,29 +1,62 @@
 import { useState } from 'react'
 import type { ResourcePack } from '../../lib/resourcepack/types'
 import { convertPackFormat, autoUpgradePack, detectPackFormat, type ConversionResult } from '../../lib/resourcepack/converter'
-import { RESOURCE_PACK_FORMATS } from '../../lib/resourcepack/versioning'
+import { LATEST_RELEASE, RESOURCE_PACK_FORMATS, describePackFormat } from '../../lib/resourcepack/versioning'
+import ConversionPreview from './ConversionPreview'
 
 type Props = {
   pack: ResourcePack
-  onPackChange: (pack: ResourcePack) => void
+  onPackChange: (pack: ResourcePack, label?: string) => void
+}
+
+type Preview = {
+  // Remounts the preview, resetting its selection, for every new dry run.
+  id: number
+  base: ResourcePack
+  result: ConversionResult
+  label: string
 }
 
 export default function ConverterTool({ pack, onPackChange }: Props) {
-  const [targetFormat, setTargetFormat] = useState(34)
+  const [targetFormat, setTargetFormat] = useState(LATEST_RELEASE.packFormat)
   const [result, setResult] = useState<ConversionResult | null>(null)
+  const [dryRun, setDryRun] = useState(false)
+  const [preview, setPreview] = useState<Preview | null>(null)
+  const [error, setError] = useState<string | null>(null)
 
   const currentFormat = detectPackFormat(pack)
 
-  function handleConvert() {
-    const converted = convertPackFormat(pack, targetFormat)
+  function run(convert: () => ConversionResult, label: string) {
+    setError(null)
+    let converted: ConversionResult
+    try {
+      converted = convert()
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+      return
+    }
+    if (dryRun) {
+      setResult(null)
+      setPreview({ id: (preview?.id ?? 0) + 1, base: pack, result: converted, label })
+      return
+    }
+    setPreview(null)
     setResult(converted)
-    onPackChange(converted.pack)
+    onPackChange(converted.pack, label)
+  }
+
+  function handleConvert() {
+    run(() => convertPackFormat(pack, targetFormat), `Converted pack to format ${targetFormat}`)
   }
 
   function handleAutoUpgrade() {
-    const upgraded = autoUpgradePack(pack)
-    setResult(upgraded)
-    onPackChange(upgraded.pack)
+    run(() => autoUpgradePack(pack), `Auto-upgraded pack to format ${LATEST_RELEASE.packFormat}`)
+  }
+
+  function handleApplyPreview(applied: ResourcePack, accepted: number, total: number) {
+    if (!preview) return
+    setPreview(null)
+    onPackChange(applied, accepted === total ? preview.label : `${preview.label} (${accepted} of ${total} changes)`)
   }
 
   return (
@@ -37,7 +70,7 @@ export default function ConverterTool({ pack, onPackChange }: Props) {
         <strong>Current Pack Format:</strong> {currentFormat || 'Unknown'}
         {currentFormat && (
           <span style={{ marginLeft: 8, opacity: 0.8 }}>
-            ({RESOURCE_PACK_FORMATS.find(f => f.packFormat === currentFormat)?.label || 'Custom'})
+            ({describePackFormat(currentFormat) ?? 'Custom'})
           </span>
         )}
       </div>
@@ -49,7 +82,7 @@ export default function ConverterTool({ pack, onPackChange }: Props) {
             value={targetFormat}
             onChange={(e) => setTargetFormat(Number(e.target.value))}
           >
-            {RESOURCE_PACK_FORMATS.map((format) => (
+            {[...RESOURCE_PACK_FORMATS].reverse().map((format) => (
               <option key={format.packFormat} value={format.packFormat}>
                 {format.label} (format {format.packFormat})
               </option>
@@ -58,15 +91,33 @@ export default function ConverterTool({ pack, onPackChange }: Props) {
         </label>
       </div>
 
+      <label className="row" style={{ flexDirection: 'row', gap: 8, alignItems: 'center', marginTop: 12 }}>
+        <input type="checkbox" checked={dryRun} onChange={(e) => setDryRun(e.target.checked)} />
+        Preview changes before applying
+      </label>
+
       <div className="row" style={{ gap: 8, marginTop: 12 }}>
         <button type="button" onClick={handleConvert} className="primary">
-          Convert to Selected Format
+          {dryRun ? 'Preview Conversion' : 'Convert to Selected Format'}
         </button>
         <button type="button" onClick={handleAutoUpgrade}>
-          Auto-Upgrade to Latest
+          {dryRun ? 'Preview ' : ''}Auto-Upgrade to Latest ({LATEST_RELEASE.label})
         </button>
       </div>
 
+      {preview && (
+        <ConversionPreview
+          key={preview.id}
+          base={preview.base}
+          result={preview.result}
+          stale={preview.base !== pack}
+          onApply={handleApplyPreview}
+          onClose={() => setPreview(null)}
+        />
+      )}
+
+      {error && <p style={{ color: 'tomato' }}>{error}</p>}
+
       {result && (
         <div style={{ marginTop: 16 }}>
           {result.changes.length > 0 && (
@@ -102,7 +153,12 @@ export default function ConverterTool({ pack, onPackChange }: Props) {
         <ul style={{ marginBottom: 0, paddingLeft: 20, fontSize: '0.9em' }}>
           <li><strong>1.21.4 (format 46+):</strong> Introduced new item model system with range_dispatch</li>
           <li><strong>Legacy (format &lt; 46):</strong> Uses overrides array in model JSON files</li>
+          <li>Every override predicate (<code>pulling</code>, <code>charged</code>, <code>time</code>, <code>angle</code>, <code>trim_type</code>, …) becomes a condition, range_dispatch or select node; untranslatable ones are reported</li>
+          <li>Renamed textures (the 1.13 flattening, <code>blocks/</code> → <code>block/</code>, renamed mobs, 1.20.3 <code>short_grass</code>) are moved and the texture slots of models, fonts and atlases are updated</li>
+          <li><strong>1.21.2 (format 42+):</strong> Armor and horse armor textures become equipment assets with definitions (in <code>models/equipment/</code> until 1.21.4, then <code>equipment/</code>); downgrading moves them back</li>
+          <li>Sheets split into <code>gui/sprites</code> in 1.20.2 are only reported; they need to be cut up by hand</li>
           <li>Converting between formats will restructure custom model data definitions</li>
+          <li>With <em>Preview changes before applying</em>, review each file change (with a JSON diff for modified files) and apply only the ones you tick</li>
           <li>Always test your pack after conversion!</li>
           <li>Backup your pack before converting (export before converting)</li>
         </ul>
@@ -5,7 +5,7 @@ import { validateJson } from '../../lib/resourcepack/validation'
 
 type Props = {
   pack: ResourcePack
-  onPackChange: (pack: ResourcePack) => void
+  onPackChange: (pack: ResourcePack, label?: string) => void
 }
 
 export default function JsonEditorTool({ pack, onPackChange }: Props) {
@@ -57,7 +57,7 @@ export default function JsonEditorTool({ pack, onPackChange }: Props) {
     try {
       const files = cloneVfs(pack.files)
       writeText(files, path, content)
-      onPackChange({ ...pack, files })
+      onPackChange({ ...pack, files }, `Edited ${path}`)
       setMessage({ type: 'success', text: `Saved ${path}` })
     } catch (e) {
       setMessage({ type: 'error', text: `Failed to save: ${e instanceof Error ? e.message : String(e)}` })
@@ -23,7 +23,7 @@ import {
 
 type Props = {
   pack: ResourcePack
-  onPackChange: (pack: ResourcePack) => void
+  onPackChange: (pack: ResourcePack, label?: string) => void
 }
 
 type UnicodeMapping = {
@@ -68,7 +68,7 @@ export default function GlyphTool({ pack, onPackChange }: Props) {
     }
 
     const newPack = writeFontFile(pack, selectedFont, definition)
-    onPackChange(newPack)
+    onPackChange(newPack, `Created font ${selectedFont}`)
     setValidationErrors([])
   }
 
@@ -98,7 +98,7 @@ export default function GlyphTool({ pack, onPackChange }: Props) {
     }
 
     const newPack = writeFontFile(pack, selectedFont, updatedDefinition)
-    onPackChange(newPack)
+    onPackChange(newPack, `Added provider to font ${selectedFont}`)
     setValidationErrors([])
   }
 
@@ -138,7 +138,7 @@ export default function GlyphTool({ pack, onPackChange }: Props) {
 
     try {
       const newPack = await uploadFontTexture(pack, file)
-      onPackChange(newPack)
+      onPackChange(newPack, `Uploaded font texture ${file.name}`)
       setTextureName(file.name)
       setValidationErrors([])
     } catch (err) {
@@ -193,7 +193,7 @@ export default function GlyphTool({ pack, onPackChange }: Props) {
       }
 
       setUnicodeMappings([...unicodeMappings, ...newMappings])
-      onPackChange(updatedPack)
+      onPackChange(updatedPack, `Added ${newMappings.length} glyph(s) to font ${selectedFont}`)
       setValidationErrors([])
     } catch (err) {
       setValidationErrors([`Failed to upload Unicode images: ${err}`])
@@ -1,10 +1,10 @@
 import { useState } from 'react'
 import type { ResourcePack } from '../../lib/resourcepack/types'
-import { readJson, vfsDelete } from '../../lib/resourcepack/vfs'
+import { cloneVfs, readJson, vfsDelete } from '../../lib/resourcepack/vfs'
 
 type Props = {
   pack: ResourcePack
-  onPackChange: (pack: ResourcePack) => void
+  onPackChange: (pack: ResourcePack, label?: string) => void
 }
 
 type TabType = 'cmd' | 'glyphs' | 'sounds' | 'textures'
@@ -51,7 +51,7 @@ function CmdManager({ pack, onPackChange }: Props) {
   function deleteEntry(itemName: string, cmd: number, isModern: boolean) {
     if (!confirm(`Delete CMD ${cmd} for ${itemName}?`)) return
 
-    const files = new Map(pack.files)
+    const files = cloneVfs(pack.files)
 
     if (isModern) {
       // Modern format: delete from items/*.json
@@ -91,7 +91,7 @@ function CmdManager({ pack, onPackChange }: Props) {
       }
     }
 
-    onPackChange({ ...pack, files })
+    onPackChange({ ...pack, files }, `Deleted CMD ${cmd} from ${itemName}`)
   }
 
   if (cmdEntries.length === 0) {
@@ -135,7 +135,7 @@ function GlyphManager({ pack, onPackChange }: Props) {
   function deleteGlyph(fontKey: string, codepoint: string) {
     if (!confirm(`Delete glyph U+${codepoint}?`)) return
 
-    const files = new Map(pack.files)
+    const files = cloneVfs(pack.files)
     const fontPath = `assets/minecraft/font/${fontKey}.json`
     const font = readJson<any>(files, fontPath)
 
@@ -156,7 +156,7 @@ function GlyphManager({ pack, onPackChange }: Props) {
     const texturePath = `assets/minecraft/textures/font/glyph_${codepoint}.png`
     vfsDelete(files, texturePath)
 
-    onPackChange({ ...pack, files })
+    onPackChange({ ...pack, files }, `Deleted glyph U+${codepoint}`)
   }
 
   if (glyphs.length === 0) {
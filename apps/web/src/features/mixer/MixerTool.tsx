@@ -1,6 +1,7 @@
 import { useMemo, useState } from 'react'
 import type { ResourcePack } from '../../lib/resourcepack/types'
-import { downloadZip, exportZipBytes, importZip } from '../../lib/resourcepack/zip'
+import { downloadZip, exportZipBytes, importZipWithReport } from '../../lib/resourcepack/zip'
+import { splitPackRoots } from '../../lib/resourcepack/roots'
 import { mixPacks } from '../../lib/resourcepack/tools'
 
 export default function MixerTool() {
@@ -15,7 +16,11 @@ export default function MixerTool() {
     setError(null)
 
     try {
-      const imported = await Promise.all(Array.from(fileList).map((f) => importZip(f)))
+      const results = await Promise.all(Array.from(fileList).map((f) => importZipWithReport(f)))
+      // An archive bundling several packs becomes one entry per pack.
+      const imported = results.flatMap(({ pack, report }) =>
+        report.packRoots.length > 1 ? splitPackRoots(pack, report.packRoots) : [pack],
+      )
       setPacks((prev) => [...prev, ...imported])
     } catch (e) {
       setError(e instanceof Error ? e.message : String(e))
@@ -48,7 +53,7 @@ export default function MixerTool() {
       <h2>Resource pack mixer</h2>
       <p style={{ marginTop: 0 }}>
         Add 2+ pack ZIPs, choose priority order, and download a merged ZIP. Later packs override earlier packs when
-        files conflict.
+        files conflict. A ZIP holding several packs is split into one entry per pack.
       </p>
 
       <div className="grid">
@@ -4,7 +4,7 @@ import { addSound, validateSoundFile, suggestSoundPath, type SoundInput } from '
 
 type Props = {
   pack: ResourcePack
-  onPackChange: (pack: ResourcePack) => void
+  onPackChange: (pack: ResourcePack, label?: string) => void
 }
 
 export default function SoundTool({ pack, onPackChange }: Props) {
@@ -49,7 +49,7 @@ export default function SoundTool({ pack, onPackChange }: Props) {
       }
 
       const updated = addSound(pack, input)
-      onPackChange(updated)
+      onPackChange(updated, `Added sound ${input.soundId}`)
 
       setMessage({ type: 'success', text: `Added sound: ${soundId}` })
 
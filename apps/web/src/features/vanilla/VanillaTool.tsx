@@ -5,7 +5,7 @@ import TexturePreview from '../../components/TexturePreview'
 
 type Props = {
   pack: ResourcePack
-  onPackChange: (pack: ResourcePack) => void
+  onPackChange: (pack: ResourcePack, label?: string) => void
 }
 
 export default function VanillaTool({ pack, onPackChange }: Props) {
@@ -27,7 +27,7 @@ export default function VanillaTool({ pack, onPackChange }: Props) {
         target,
         replacementPng: bytes,
       })
-      onPackChange(next)
+      onPackChange(next, `Replaced ${target}`)
       setOk(`Wrote ${target}`)
     } catch (e) {
       setError(e instanceof Error ? e.message : String(e))
@@ -1,4 +1,4 @@
-import type { ResourcePack } from './types'
+import type { ProgressCallback, ResourcePack } from './types'
 
 export type PackStats = {
   totalFiles: number
@@ -13,7 +13,7 @@ export type FileConflict = {
   sources: string[]
 }
 
-export function analyzePack(pack: ResourcePack): PackStats {
+export function analyzePack(pack: ResourcePack, onProgress?: ProgressCallback): PackStats {
   const stats: PackStats = {
     totalFiles: 0,
     totalSize: 0,
@@ -23,10 +23,12 @@ export function analyzePack(pack: ResourcePack): PackStats {
   }
 
   const filesWithSizes: Array<{ path: string; size: number }> = []
+  const total = pack.files.size
 
   for (const [path, data] of pack.files.entries()) {
     const size = data.byteLength
     stats.totalFiles++
+    onProgress?.(stats.totalFiles, total)
     stats.totalSize += size
 
     filesWithSizes.push({ path, size })
@@ -53,12 +55,15 @@ export function analyzePack(pack: ResourcePack): PackStats {
   return stats
 }
 
-export function findUnusedFiles(pack: ResourcePack): string[] {
+export function findUnusedFiles(pack: ResourcePack, onProgress?: ProgressCallback): string[] {
   const unused: string[] = []
   const referenced = new Set<string>()
+  const total = pack.files.size
+  let done = 0
 
   // Track all referenced files by scanning JSON files
   for (const [path, data] of pack.files.entries()) {
+    onProgress?.(++done, total)
     if (path.endsWith('.json')) {
       try {
         const content = new TextDecoder().decode(data)
@@ -151,7 +156,7 @@ export function formatSize(bytes: number): string {
 
 // Helper functions
 
-function getFileExtension(path: string): string {
+export function getFileExtension(path: string): string {
   const lastDot = path.lastIndexOf('.')
   if (lastDot === -1) return 'no-extension'
   return path.slice(lastDot + 1).toLowerCase()
@@ -0,0 +1,138 @@
+import type { Vfs } from './types'
+import { bytesEqual, cloneVfs, diffVfs, readJson } from './vfs'
+
+// File-level changes between a pack and a transformed copy of it (e.g. a conversion), so they can be
+// reviewed and applied selectively.
+
+export type FileChange =
+  | { kind: 'created'; path: string }
+  | { kind: 'modified'; path: string }
+  | { kind: 'deleted'; path: string }
+  // Deleted at `from` and created with the same content at `to`.
+  | { kind: 'moved'; from: string; to: string }
+
+export type JsonDiffEntry = {
+  // Location in the document, e.g. `textures.layer0` or `overrides[2].model`; '' for the root.
+  path: string
+  kind: 'added' | 'removed' | 'changed'
+  before?: unknown
+  after?: unknown
+}
+
+export function changeKey(change: FileChange): string {
+  return change.kind === 'moved' ? `${change.from} → ${change.to}` : change.path
+}
+
+// Created, modified, moved and deleted files, in that order and sorted by path within each kind.
+// A deleted file pairs with the first added file (in path order) holding the same bytes.
+export function listFileChanges(before: Vfs, after: Vfs): FileChange[] {
+  const diff = diffVfs(before, after)
+  const created = new Set(diff.added)
+  const moved: FileChange[] = []
+  const deleted: FileChange[] = []
+
+  // Candidates by size and content hash, so each deleted file only compares against likely matches.
+  const candidates = new Map<string, string[]>()
+  for (const path of diff.added) {
+    const key = contentKey(after.get(path)!)
+    const list = candidates.get(key)
+    if (list) list.push(path)
+    else candidates.set(key, [path])
+  }
+
+  for (const path of diff.deleted) {
+    const data = before.get(path)!
+    const list = candidates.get(contentKey(data)) ?? []
+    // Hashes can collide; only equal bytes count.
+    const index = list.findIndex((p) => bytesEqual(data, after.get(p)!))
+    if (index >= 0) {
+      const [target] = list.splice(index, 1)
+      created.delete(target)
+      moved.push({ kind: 'moved', from: path, to: target })
+    } else {
+      deleted.push({ kind: 'deleted', path })
+    }
+  }
+
+  return [
+    ...Array.from(created, (path): FileChange => ({ kind: 'created', path })),
+    ...diff.modified.map((path): FileChange => ({ kind: 'modified', path })),
+    ...moved,
+    ...deleted,
+  ]
+}
+
+// `before` with only the accepted changes of `after` applied.
+export function applyFileChanges(before: Vfs, after: Vfs, accepted: FileChange[]): Vfs {
+  const files = cloneVfs(before)
+  for (const change of accepted) {
+    switch (change.kind) {
+      case 'created':
+      case 'modified':
+        files.set(change.path, after.get(change.path)!)
+        break
+      case 'deleted':
+        files.delete(change.path)
+        break
+      case 'moved':
+        files.delete(change.from)
+        files.set(change.to, after.get(change.to)!)
+        break
+    }
+  }
+  return files
+}
+
+// Structural diff of a JSON file in both states; null when either side isn't valid JSON.
+export function diffJsonFile(before: Vfs, after: Vfs, path: string): JsonDiffEntry[] | null {
+  let a: unknown
+  let b: unknown
+  try {
+    a = readJson<unknown>(before, path)
+    b = readJson<unknown>(after, path)
+  } catch {
+    return null
+  }
+  if (a === null || b === null) return null
+  return diffJson(a, b)
+}
+
+export function diffJson(before: unknown, after: unknown, path = ''): JsonDiffEntry[] {
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const entries: JsonDiffEntry[] = []
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      const at = `${path}[${i}]`
+      if (i >= after.length) entries.push({ path: at, kind: 'removed', before: before[i] })
+      else if (i >= before.length) entries.push({ path: at, kind: 'added', after: after[i] })
+      else entries.push(...diffJson(before[i], after[i], at))
+    }
+    return entries
+  }
+
+  if (isRecord(before) && isRecord(after)) {
+    const entries: JsonDiffEntry[] = []
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      const at = path ? `${path}.${key}` : key
+      if (!(key in after)) entries.push({ path: at, kind: 'removed', before: before[key] })
+      else if (!(key in before)) entries.push({ path: at, kind: 'added', after: after[key] })
+      else entries.push(...diffJson(before[key], after[key], at))
+    }
+    return entries
+  }
+
+  return JSON.stringify(before) === JSON.stringify(after) ? [] : [{ path, kind: 'changed', before, after }]
+}
+
+// Size plus 32-bit FNV-1a of the bytes.
+function contentKey(data: Uint8Array): string {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < data.length; i++) {
+    hash ^= data[i]
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return `${data.length}:${hash >>> 0}`
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
@@ -0,0 +1,174 @@
+import { analyzePack, getFileExtension } from './analyzer'
+import type { Vfs } from './types'
+
+export type DeflateLevel = 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9
+
+export type CompressionRule = {
+  // `*.png`, `assets/**/textures/**`, `*.{json,mcmeta}`. Globs without a slash match the file name only.
+  glob: string
+  mode: 'store' | 'deflate'
+  level?: DeflateLevel
+}
+
+export type ExportProfile = {
+  id: string
+  label: string
+  // First matching rule wins; unmatched files use defaultLevel.
+  rules: CompressionRule[]
+  defaultLevel: DeflateLevel
+}
+
+export type CompressionChoice = {
+  mode: 'store' | 'deflate'
+  level: DeflateLevel
+}
+
+export type CompressionReport = {
+  byType: Record<string, { count: number; size: number; compressedSize: number }>
+  totalSize: number
+  compressedSize: number
+}
+
+// PNG is already deflated and OGG is Vorbis: deflating them again costs time and saves ~nothing.
+const ALREADY_COMPRESSED = '*.{png,ogg,jpg,jpeg,zip}'
+const TEXT_FILES = '*.{json,mcmeta,txt,lang,properties,fsh,vsh,glsl,jem,jpm}'
+
+export const EXPORT_PROFILES: ExportProfile[] = [
+  {
+    id: 'balanced',
+    label: 'Balanced (store images/audio, max deflate text)',
+    rules: [
+      { glob: ALREADY_COMPRESSED, mode: 'store' },
+      { glob: TEXT_FILES, mode: 'deflate', level: 9 },
+    ],
+    defaultLevel: 6,
+  },
+  {
+    id: 'smallest',
+    label: 'Smallest (max deflate everything)',
+    rules: [],
+    defaultLevel: 9,
+  },
+  {
+    id: 'fastest',
+    label: 'Fastest (store everything)',
+    rules: [{ glob: '**', mode: 'store' }],
+    defaultLevel: 0,
+  },
+  {
+    id: 'legacy',
+    label: 'Deflate everything at level 6',
+    rules: [],
+    defaultLevel: 6,
+  },
+]
+
+export const DEFAULT_EXPORT_PROFILE = EXPORT_PROFILES[0]
+
+export function findExportProfile(id: string): ExportProfile | null {
+  return EXPORT_PROFILES.find((p) => p.id === id) ?? null
+}
+
+// Per-glob overrides are checked before the profile's own rules.
+export function withOverrides(profile: ExportProfile, overrides: CompressionRule[]): ExportProfile {
+  if (overrides.length === 0) return profile
+  return { ...profile, rules: [...overrides, ...profile.rules] }
+}
+
+export function resolveCompression(path: string, profile: ExportProfile): CompressionChoice {
+  for (const rule of profile.rules) {
+    if (!matchesGlob(path, rule.glob)) continue
+    if (rule.mode === 'store') return { mode: 'store', level: 0 }
+    return { mode: 'deflate', level: rule.level ?? profile.defaultLevel }
+  }
+  return profile.defaultLevel === 0 ? { mode: 'store', level: 0 } : { mode: 'deflate', level: profile.defaultLevel }
+}
+
+export function matchesGlob(path: string, glob: string): boolean {
+  const target = glob.includes('/') ? path : path.slice(path.lastIndexOf('/') + 1)
+  return globToRegExp(glob).test(target)
+}
+
+export function globToRegExp(glob: string): RegExp {
+  let re = ''
+  let inGroup = false
+
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i]
+    if (ch === '*') {
+      if (glob[i + 1] === '*') {
+        // `**/` also matches zero directories.
+        if (glob[i + 2] === '/') {
+          re += '(?:.*/)?'
+          i += 2
+        } else {
+          re += '.*'
+          i += 1
+        }
+      } else {
+        re += '[^/]*'
+      }
+    } else if (ch === '?') {
+      re += '[^/]'
+    } else if (ch === '{') {
+      inGroup = true
+      re += '(?:'
+    } else if (ch === '}' && inGroup) {
+      inGroup = false
+      re += ')'
+    } else if (ch === ',' && inGroup) {
+      re += '|'
+    } else {
+      re += ch.replace(/[.+^$()|[\]\\]/g, '\\$&')
+    }
+  }
+
+  return new RegExp(`^${re}$`, 'i')
+}
+
+// One rule per line: `<glob> store` or `<glob> deflate [0-9]` (or just `<glob> <level>`). `#` starts a comment.
+export function parseCompressionRules(text: string): { rules: CompressionRule[]; errors: string[] } {
+  const rules: CompressionRule[] = []
+  const errors: string[] = []
+
+  text.split('\n').forEach((raw, i) => {
+    const line = raw.replace(/#.*$/, '').trim()
+    if (!line) return
+
+    const [glob, mode, level] = line.split(/\s+/)
+    if (mode === 'store') {
+      rules.push({ glob, mode: 'store' })
+    } else if (mode === 'deflate' && (level === undefined || isLevel(level))) {
+      rules.push({ glob, mode: 'deflate', level: level === undefined ? undefined : (Number(level) as DeflateLevel) })
+    } else if (mode !== undefined && isLevel(mode) && level === undefined) {
+      const n = Number(mode) as DeflateLevel
+      rules.push(n === 0 ? { glob, mode: 'store' } : { glob, mode: 'deflate', level: n })
+    } else {
+      errors.push(`Line ${i + 1}: expected "<glob> store" or "<glob> deflate [0-9]"`)
+    }
+  })
+
+  return { rules, errors }
+}
+
+// Before sizes come from analyzePack's byType grouping; after sizes from the archive's central directory.
+export function buildCompressionReport(files: Vfs, compressedSizes: Map<string, number>): CompressionReport {
+  const stats = analyzePack({ name: '', files })
+  const byType: CompressionReport['byType'] = {}
+  for (const [type, data] of Object.entries(stats.byType)) {
+    byType[type] = { count: data.count, size: data.size, compressedSize: 0 }
+  }
+
+  let compressedSize = 0
+  for (const [path, size] of compressedSizes) {
+    const type = getFileExtension(path)
+    if (byType[type]) byType[type].compressedSize += size
+    compressedSize += size
+  }
+
+  return { byType, totalSize: stats.totalSize, compressedSize }
+}
+
+function isLevel(value: string): boolean {
+  return /^[0-9]$/.test(value)
+}
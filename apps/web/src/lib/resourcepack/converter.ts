@@ -1,5 +1,11 @@
-import type { ResourcePack } from './types'
+import { migrateEquipment } from './equipment'
+import { overridesToItemModel, type LegacyOverride } from './itemOverrides'
+import { MIN_FORMAT_FIELDS_FORMAT, applyPackSettings, readPackMetadata, type PackMetadata, type PackSettings } from './metadata'
+import { migrateTexturePaths } from './textureRenames'
+import type { ResourcePack, Vfs } from './types'
+import { validatePack } from './validation'
 import { cloneVfs, readJson, vfsDelete, writeJson } from './vfs'
+import { LATEST_RELEASE } from './versioning'
 
 export type ConversionResult = {
   pack: ResourcePack
@@ -12,7 +18,8 @@ export function convertPackFormat(pack: ResourcePack, targetFormat: number): Con
   const warnings: string[] = []
   const files = cloneVfs(pack.files)
 
-  const currentFormat = readJson<{ pack?: { pack_format?: number } }>(files, 'pack.mcmeta')?.pack?.pack_format ?? 0
+  const meta = readPackMetadata(pack)
+  const currentFormat = meta?.packFormat ?? 0
 
   if (currentFormat === 0) {
     warnings.push('Could not determine current pack format')
@@ -24,11 +31,21 @@ export function convertPackFormat(pack: ResourcePack, targetFormat: number): Con
   }
 
   // Update pack.mcmeta
-  const mcmeta = readJson<{ pack?: { pack_format?: number; description?: string } }>(files, 'pack.mcmeta')
-  if (mcmeta?.pack) {
-    mcmeta.pack.pack_format = targetFormat
-    writeJson(files, 'pack.mcmeta', mcmeta)
-    changes.push(`Updated pack.mcmeta pack_format: ${currentFormat} → ${targetFormat}`)
+  if (meta) {
+    const updated = updatePackMcmeta(files, pack.name, meta, targetFormat)
+    changes.push(`Updated pack.mcmeta pack_format: ${currentFormat} → ${targetFormat}`, ...updated)
+  }
+
+  // Renamed and moved textures, e.g. the 1.13 flattening
+  if (currentFormat > 0) {
+    const migrated = migrateTexturePaths(files, currentFormat, targetFormat)
+    changes.push(...migrated.changes)
+    warnings.push(...migrated.warnings)
+
+    // Armor layers ↔ 1.21.2 equipment assets
+    const equipment = migrateEquipment(files, currentFormat, targetFormat)
+    changes.push(...equipment.changes)
+    warnings.push(...equipment.warnings)
   }
 
   // Convert from legacy (< 46) to 1.21.4+ (>= 46)
@@ -45,13 +62,47 @@ export function convertPackFormat(pack: ResourcePack, targetFormat: number): Con
     warnings.push(...converted.warnings)
   }
 
+  // Report anything the conversion broke that the pack didn't already have wrong.
+  const converted = { ...pack, files }
+  const before = new Set(validatePack(pack).map((i) => i.message))
+  for (const issue of validatePack(converted)) {
+    if (issue.severity === 'error' && !before.has(issue.message)) warnings.push(`Converted pack fails validation: ${issue.message}`)
+  }
+
   return {
-    pack: { ...pack, files },
+    pack: converted,
     changes,
     warnings,
   }
 }
 
+// pack_format plus the keys that declare a range: min_format/max_format from format 65 on, and below it
+// supported_formats (which is dropped when it no longer covers the target).
+function updatePackMcmeta(files: Vfs, name: string, meta: PackMetadata, targetFormat: number): string[] {
+  const changes: string[] = []
+  const modern = targetFormat >= MIN_FORMAT_FIELDS_FORMAT
+  const range = meta.supportedFormats
+  const keepRange = range !== null && range.min <= targetFormat && targetFormat <= range.max
+  const settings: PackSettings = {
+    name,
+    versionId: 'custom',
+    packFormat: targetFormat,
+    description: meta.description,
+    supportedFormats: keepRange ? undefined : null,
+    minFormat: modern ? targetFormat : null,
+    maxFormat: modern ? targetFormat : null,
+  }
+  const updated = applyPackSettings({ name, files }, settings)
+  files.set('pack.mcmeta', updated.files.get('pack.mcmeta')!)
+
+  if (range && !keepRange) changes.push(`Removed pack.mcmeta supported_formats ${range.min}–${range.max} (excludes ${targetFormat})`)
+  if (modern) changes.push(`Set pack.mcmeta min_format and max_format to ${targetFormat}`)
+  else if (meta.minFormat !== null || meta.maxFormat !== null) {
+    changes.push(`Removed pack.mcmeta min_format/max_format (not read before format ${MIN_FORMAT_FIELDS_FORMAT})`)
+  }
+  return changes
+}
+
 type ConversionStep = {
   changes: string[]
   warnings: string[]
@@ -70,7 +121,7 @@ function convertLegacyToModern(files: Map<string, Uint8Array>): ConversionStep {
     const model = readJson<{
       parent?: string
       textures?: Record<string, string>
-      overrides?: Array<{ predicate?: { custom_model_data?: number }; model?: string }>
+      overrides?: LegacyOverride[]
     }>(files, modelPath)
 
     if (!model?.overrides || model.overrides.length === 0) continue
@@ -86,33 +137,17 @@ function convertLegacyToModern(files: Map<string, Uint8Array>): ConversionStep {
     // Create new items definition file
     const itemDefPath = `assets/${namespace}/items/${itemName}.json`
 
-    // Build range_dispatch entries from overrides
-    const entries = model.overrides
-      .filter(o => typeof o?.predicate?.custom_model_data === 'number')
-      .map(o => ({
-        threshold: o.predicate!.custom_model_data!,
-        model: {
-          type: 'minecraft:model' as const,
-          model: o.model || '',
-        },
-      }))
-      .sort((a, b) => a.threshold - b.threshold)
-
-    if (entries.length > 0) {
-      const itemDef = {
-        model: {
-          type: 'minecraft:range_dispatch' as const,
-          property: 'minecraft:custom_model_data',
-          index: 0,
-          entries,
-          fallback: {
-            type: 'minecraft:model' as const,
-            model: `${namespace}:item/${itemName}`,
-          },
-        },
-      }
+    // Every predicate becomes a condition, range_dispatch or select node
+    const converted = overridesToItemModel(
+      model.overrides,
+      { type: 'minecraft:model', model: `${namespace}:item/${itemName}` },
+      itemName,
+      modelPath,
+    )
+    warnings.push(...converted.warnings)
 
-      writeJson(files, itemDefPath, itemDef)
+    if (converted.translated > 0) {
+      writeJson(files, itemDefPath, { model: converted.model })
       changes.push(`Converted ${modelPath} overrides to ${itemDefPath}`)
 
       // Remove overrides from original model
@@ -214,7 +249,7 @@ function convertModernToLegacy(files: Map<string, Uint8Array>): ConversionStep {
 }
 
 export function autoUpgradePack(pack: ResourcePack): ConversionResult {
-  const currentFormat = readJson<{ pack?: { pack_format?: number } }>(pack.files, 'pack.mcmeta')?.pack?.pack_format
+  const currentFormat = detectPackFormat(pack)
 
   if (!currentFormat) {
     return {
@@ -224,8 +259,7 @@ export function autoUpgradePack(pack: ResourcePack): ConversionResult {
     }
   }
 
-  // Always upgrade to latest (64 as of 1.21.7-1.21.8)
-  const targetFormat = 64
+  const targetFormat = LATEST_RELEASE.packFormat
 
   if (currentFormat >= targetFormat) {
     return {
@@ -239,5 +273,6 @@ export function autoUpgradePack(pack: ResourcePack): ConversionResult {
 }
 
 export function detectPackFormat(pack: ResourcePack): number | null {
-  return readJson<{ pack?: { pack_format?: number } }>(pack.files, 'pack.mcmeta')?.pack?.pack_format ?? null
+  // Packs for 25w31a+ may only declare min_format/max_format.
+  return readPackMetadata(pack)?.packFormat ?? null
 }
@@ -0,0 +1,237 @@
+import type { Vfs } from './types'
+import { readJson, writeJson } from './vfs'
+
+// Armor and horse armor textures. Before 1.21.2 they sat at textures/models/armor/<material>_layer_<1|2>.png
+// and textures/entity/horse/armor/horse_armor_<material>.png. From 1.21.2 on each material is an
+// equipment asset: a definition listing its layers per layer type, with textures under
+// textures/entity/equipment/<layer type>/.
+
+export type EquipmentLayer = {
+  texture: string
+  dyeable?: { color_when_undyed?: number }
+}
+
+export type EquipmentDefinition = {
+  layers: Partial<Record<EquipmentLayerType, EquipmentLayer[]>>
+}
+
+export type EquipmentLayerType = 'humanoid' | 'humanoid_leggings' | 'horse_body'
+
+export type EquipmentMigration = {
+  changes: string[]
+  warnings: string[]
+}
+
+// 1.21.2: equipment assets, read from models/equipment/.
+export const EQUIPMENT_ASSETS_FORMAT = 42
+// 1.21.4: definitions moved to equipment/.
+export const EQUIPMENT_DIRECTORY_FORMAT = 46
+
+const LEATHER_COLOR = -6265536
+
+// The vanilla definitions, so that a pack replacing one layer keeps the others.
+const VANILLA_EQUIPMENT: Record<string, EquipmentDefinition> = {
+  leather: {
+    layers: {
+      humanoid: [{ texture: 'minecraft:leather', dyeable: { color_when_undyed: LEATHER_COLOR } }, { texture: 'minecraft:leather_overlay' }],
+      humanoid_leggings: [
+        { texture: 'minecraft:leather', dyeable: { color_when_undyed: LEATHER_COLOR } },
+        { texture: 'minecraft:leather_overlay' },
+      ],
+      horse_body: [{ texture: 'minecraft:leather', dyeable: { color_when_undyed: LEATHER_COLOR } }],
+    },
+  },
+  chainmail: armorLayers('chainmail'),
+  iron: withHorse('iron'),
+  gold: withHorse('gold'),
+  diamond: withHorse('diamond'),
+  netherite: armorLayers('netherite'),
+  turtle_scute: { layers: { humanoid: [{ texture: 'minecraft:turtle_scute' }] } },
+}
+
+// Old material names that became different asset ids.
+const RENAMED_MATERIALS: Record<string, string> = {
+  turtle: 'turtle_scute',
+}
+
+const ARMOR_TEXTURE = /^assets\/([^/]+)\/textures\/models\/armor\/(.+)_layer_([12])(_overlay)?(\.png(?:\.mcmeta)?)$/
+const HORSE_ARMOR_TEXTURE = /^assets\/([^/]+)\/textures\/entity\/horse\/armor\/horse_armor_(.+?)(\.png(?:\.mcmeta)?)$/
+const EQUIPMENT_TEXTURE = /^assets\/([^/]+)\/textures\/entity\/equipment\/(humanoid|humanoid_leggings|horse_body)\/(.+?)(\.png(?:\.mcmeta)?)$/
+const EQUIPMENT_DEFINITION = /^assets\/([^/]+)\/(models\/equipment|equipment)\/(.+)\.json$/
+
+export function equipmentDefinitionPath(namespace: string, asset: string, format: number): string {
+  return format >= EQUIPMENT_DIRECTORY_FORMAT ? `assets/${namespace}/equipment/${asset}.json` : `assets/${namespace}/models/equipment/${asset}.json`
+}
+
+// Moves armor textures between the two layouts and writes or removes the equipment definitions.
+export function migrateEquipment(files: Vfs, fromFormat: number, toFormat: number): EquipmentMigration {
+  const wasAssets = fromFormat >= EQUIPMENT_ASSETS_FORMAT
+  const isAssets = toFormat >= EQUIPMENT_ASSETS_FORMAT
+  if (!wasAssets && isAssets) return toEquipmentAssets(files, toFormat)
+  if (wasAssets && !isAssets) return toArmorLayers(files)
+  if (wasAssets && isAssets) return moveDefinitions(files, toFormat)
+  return { changes: [], warnings: [] }
+}
+
+function toEquipmentAssets(files: Vfs, toFormat: number): EquipmentMigration {
+  const changes: string[] = []
+  const warnings: string[] = []
+  // namespace:asset -> layers the pack has textures for
+  const assets = new Map<string, Set<EquipmentLayerType>>()
+
+  for (const path of Array.from(files.keys())) {
+    let namespace: string
+    let asset: string
+    let layerType: EquipmentLayerType
+    let texture: string
+    let extension: string
+
+    const armor = ARMOR_TEXTURE.exec(path)
+    const horse = HORSE_ARMOR_TEXTURE.exec(path)
+    if (armor) {
+      namespace = armor[1]
+      asset = RENAMED_MATERIALS[armor[2]] ?? armor[2]
+      layerType = armor[3] === '1' ? 'humanoid' : 'humanoid_leggings'
+      texture = armor[4] ? `${asset}_overlay` : asset
+      extension = armor[5]
+    } else if (horse) {
+      namespace = horse[1]
+      asset = horse[2]
+      layerType = 'horse_body'
+      texture = asset
+      extension = horse[3]
+    } else {
+      continue
+    }
+
+    const target = `assets/${namespace}/textures/entity/equipment/${layerType}/${texture}${extension}`
+    if (files.has(target)) {
+      warnings.push(`Kept ${path}: ${target} already exists`)
+      continue
+    }
+    files.set(target, files.get(path)!)
+    files.delete(path)
+    changes.push(`Moved ${path} → ${target}`)
+
+    const key = `${namespace}:${asset}`
+    if (!assets.has(key)) assets.set(key, new Set())
+    if (extension === '.png') assets.get(key)!.add(layerType)
+  }
+
+  for (const [key, layerTypes] of assets) {
+    const [namespace, asset] = key.split(':')
+    const path = equipmentDefinitionPath(namespace, asset, toFormat)
+    if (files.has(path)) continue
+    const vanilla = namespace === 'minecraft' ? VANILLA_EQUIPMENT[asset] : undefined
+    const definition: EquipmentDefinition = vanilla ?? { layers: {} }
+    if (!vanilla) {
+      for (const layerType of layerTypes) {
+        const layers: EquipmentLayer[] = [{ texture: `${namespace}:${asset}` }]
+        if (files.has(`assets/${namespace}/textures/entity/equipment/${layerType}/${asset}_overlay.png`)) {
+          layers.push({ texture: `${namespace}:${asset}_overlay` })
+        }
+        definition.layers[layerType] = layers
+      }
+      warnings.push(`${key} is not a vanilla armor material; its items need an equippable component with asset_id "${key}" to use ${path}`)
+    }
+    writeJson(files, path, definition)
+    changes.push(`Created ${path}`)
+  }
+
+  return { changes, warnings }
+}
+
+function toArmorLayers(files: Vfs): EquipmentMigration {
+  const changes: string[] = []
+  const warnings: string[] = []
+
+  for (const path of Array.from(files.keys())) {
+    const match = EQUIPMENT_TEXTURE.exec(path)
+    if (!match) continue
+    const [, namespace, layerType, texture, extension] = match
+    const overlay = texture.endsWith('_overlay')
+    const asset = overlay ? texture.slice(0, -'_overlay'.length) : texture
+    const material = Object.keys(RENAMED_MATERIALS).find((old) => RENAMED_MATERIALS[old] === asset) ?? asset
+
+    let target: string
+    if (layerType === 'horse_body') {
+      if (overlay) {
+        warnings.push(`${path} has no counterpart before 1.21.2 and was left in place`)
+        continue
+      }
+      target = `assets/${namespace}/textures/entity/horse/armor/horse_armor_${material}${extension}`
+    } else {
+      const layer = layerType === 'humanoid' ? 1 : 2
+      target = `assets/${namespace}/textures/models/armor/${material}_layer_${layer}${overlay ? '_overlay' : ''}${extension}`
+    }
+    if (files.has(target)) {
+      warnings.push(`Kept ${path}: ${target} already exists`)
+      continue
+    }
+    files.set(target, files.get(path)!)
+    files.delete(path)
+    changes.push(`Moved ${path} → ${target}`)
+  }
+
+  for (const path of Array.from(files.keys())) {
+    const match = EQUIPMENT_DEFINITION.exec(path)
+    if (!match) continue
+    const [, namespace, , asset] = match
+    let definition: EquipmentDefinition | null = null
+    try {
+      definition = readJson<EquipmentDefinition>(files, path)
+    } catch {
+      warnings.push(`${path} is not valid JSON; its layers could not be checked`)
+    }
+    // Older versions name armor textures after the material, so only the plain layout carries over.
+    for (const [layerType, layers] of Object.entries(definition?.layers ?? {})) {
+      const expected = [`${namespace}:${asset}`, `${namespace}:${asset}_overlay`]
+      const unusual = (layers ?? []).filter((l) => !expected.includes(qualify(l.texture)))
+      if (unusual.length > 0) {
+        warnings.push(`${path}: ${layerType} layer textures ${unusual.map((l) => l.texture).join(', ')} can't be expressed before 1.21.2`)
+      }
+    }
+    files.delete(path)
+    changes.push(`Removed ${path} (equipment definitions are not read before 1.21.2)`)
+  }
+
+  return { changes, warnings }
+}
+
+// Both formats use equipment assets; only the definitions' directory can differ.
+function moveDefinitions(files: Vfs, toFormat: number): EquipmentMigration {
+  const changes: string[] = []
+  const warnings: string[] = []
+  for (const path of Array.from(files.keys())) {
+    const match = EQUIPMENT_DEFINITION.exec(path)
+    if (!match) continue
+    const [, namespace, , asset] = match
+    const target = equipmentDefinitionPath(namespace, asset, toFormat)
+    if (target === path) continue
+    if (files.has(target)) {
+      warnings.push(`Kept ${path}: ${target} already exists`)
+      continue
+    }
+    files.set(target, files.get(path)!)
+    files.delete(path)
+    changes.push(`Moved ${path} → ${target}`)
+  }
+  return { changes, warnings }
+}
+
+function armorLayers(material: string): EquipmentDefinition {
+  return {
+    layers: {
+      humanoid: [{ texture: `minecraft:${material}` }],
+      humanoid_leggings: [{ texture: `minecraft:${material}` }],
+    },
+  }
+}
+
+function withHorse(material: string): EquipmentDefinition {
+  return { layers: { ...armorLayers(material).layers, horse_body: [{ texture: `minecraft:${material}` }] } }
+}
+
+function qualify(id: string): string {
+  return id.includes(':') ? id : `minecraft:${id}`
+}
@@ -0,0 +1,70 @@
+// pack.mcmeta `filter.block`: patterns hiding files of packs lower in the load order. Each pattern's
+// regexes must match the whole namespace and the whole path within it (e.g. `minecraft` and
+// `lang/en_us.json`); a missing regex matches anything.
+
+export type FilterPattern = {
+  namespace: string | null
+  path: string | null
+}
+
+const RESOURCE_PATH = /^assets\/([^/]+)\/(.+)$/
+
+// null unless `value` is a `filter` object with a `block` list.
+export function parseFilterBlock(value: unknown): FilterPattern[] | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return null
+  const block = (value as { block?: unknown }).block
+  if (!Array.isArray(block)) return null
+
+  const patterns: FilterPattern[] = []
+  for (const raw of block) {
+    if (typeof raw !== 'object' || raw === null) continue
+    const entry = raw as Record<string, unknown>
+    patterns.push({
+      namespace: typeof entry.namespace === 'string' ? entry.namespace : null,
+      path: typeof entry.path === 'string' ? entry.path : null,
+    })
+  }
+  return patterns
+}
+
+export function serializeFilterPattern(pattern: FilterPattern): Record<string, string> {
+  const entry: Record<string, string> = {}
+  if (pattern.namespace !== null) entry.namespace = pattern.namespace
+  if (pattern.path !== null) entry.path = pattern.path
+  return entry
+}
+
+export function sameFilterPatterns(a: FilterPattern[], b: FilterPattern[]): boolean {
+  return a.length === b.length && a.every((p, i) => p.namespace === b[i].namespace && p.path === b[i].path)
+}
+
+// The game compiles these as Java regexes; the common syntax is the same in JavaScript.
+export function filterPatternError(pattern: FilterPattern): string | null {
+  for (const key of ['namespace', 'path'] as const) {
+    try {
+      compile(pattern[key])
+    } catch (e) {
+      return `${key}: ${e instanceof Error ? e.message : String(e)}`
+    }
+  }
+  return null
+}
+
+// The `assets/` files a pattern matches, in the order given. Throws for an invalid regex.
+export function filterPatternMatches(pattern: FilterPattern, paths: Iterable<string>): string[] {
+  const namespace = compile(pattern.namespace)
+  const path = compile(pattern.path)
+  const matches: string[] = []
+  for (const candidate of paths) {
+    const parts = RESOURCE_PATH.exec(candidate)
+    if (!parts) continue
+    if (namespace && !namespace.test(parts[1])) continue
+    if (path && !path.test(parts[2])) continue
+    matches.push(candidate)
+  }
+  return matches
+}
+
+function compile(source: string | null): RegExp | null {
+  return source === null ? null : new RegExp(`^(?:${source})$`)
+}
@@ -0,0 +1,104 @@
+import { formatSize } from './analyzer'
+import { packRootName } from './roots'
+import { admitImportEntry, createImportReport, resolveImportLimits } from './sanitize'
+import type { Vfs } from './types'
+import { createVfs } from './vfs'
+import { detectImportRoot, type ImportResult, type ImportZipOptions } from './zip'
+
+// Imports an unzipped pack folder, either from <input webkitdirectory> or a File System Access
+// directory handle. Paths and filtering go through the same rules as the ZIP importer.
+
+export type ImportFolderOptions = ImportZipOptions & {
+  signal?: AbortSignal
+}
+
+// Not in TypeScript's DOM lib yet (Chromium-only at the time of writing).
+declare global {
+  interface Window {
+    showDirectoryPicker?: (options?: { id?: string; mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>
+  }
+}
+
+export type FolderEntry = {
+  path: string
+  getFile: () => Promise<File>
+}
+
+export function supportsDirectoryPicker(): boolean {
+  return typeof window !== 'undefined' && typeof window.showDirectoryPicker === 'function'
+}
+
+export async function pickDirectory(mode: 'read' | 'readwrite' = 'read'): Promise<FileSystemDirectoryHandle> {
+  if (!window.showDirectoryPicker) throw new Error('This browser cannot open folders directly; use the folder upload instead')
+  return window.showDirectoryPicker({ id: 'mrwm-pack-folder', mode })
+}
+
+// Files from <input type="file" webkitdirectory>. Every webkitRelativePath starts with the picked
+// folder's name, which becomes the pack name and is stripped from the paths.
+export async function importFolderFiles(fileList: Iterable<File>, options: ImportFolderOptions = {}): Promise<ImportResult> {
+  const entries: FolderEntry[] = []
+  let name = ''
+  for (const file of fileList) {
+    const relative = file.webkitRelativePath || file.name
+    const slash = relative.indexOf('/')
+    if (!name) name = slash > 0 ? relative.slice(0, slash) : ''
+    entries.push({ path: slash > 0 ? relative.slice(slash + 1) : relative, getFile: async () => file })
+  }
+  return importFolderEntries(name || 'resourcepack', entries, options)
+}
+
+export async function importDirectoryHandle(
+  dir: FileSystemDirectoryHandle,
+  options: ImportFolderOptions = {},
+): Promise<ImportResult> {
+  const entries: FolderEntry[] = []
+  await walkDirectory(dir, '', entries, options.signal)
+  return importFolderEntries(dir.name, entries, options)
+}
+
+// Collects every file below a directory handle with its path relative to that handle.
+export async function walkDirectory(
+  dir: FileSystemDirectoryHandle,
+  prefix: string,
+  out: FolderEntry[],
+  signal?: AbortSignal,
+): Promise<void> {
+  for await (const handle of dir.values()) {
+    signal?.throwIfAborted()
+    const path = `${prefix}${handle.name}`
+    if (handle.kind === 'directory') await walkDirectory(handle as FileSystemDirectoryHandle, `${path}/`, out, signal)
+    else out.push({ path, getFile: () => (handle as FileSystemFileHandle).getFile() })
+  }
+}
+
+export async function importFolderEntries(name: string, entries: FolderEntry[], options: ImportFolderOptions): Promise<ImportResult> {
+  const limits = resolveImportLimits(options.limits)
+  const report = createImportReport()
+  const files: Vfs = createVfs()
+
+  if (entries.length > limits.maxEntries) {
+    throw new Error(`Folder has ${entries.length} files; the limit is ${limits.maxEntries}`)
+  }
+
+  for (const entry of entries) {
+    options.signal?.throwIfAborted()
+    report.entries++
+    options.onProgress?.(report.entries, entries.length)
+
+    const path = admitImportEntry(report, entry.path, (p) => files.has(p), options.filter)
+    if (path === null) continue
+
+    const file = await entry.getFile()
+    report.totalSize += file.size
+    if (report.totalSize > limits.maxTotalSize) {
+      throw new Error(`Folder holds more than ${formatSize(limits.maxTotalSize)}`)
+    }
+    files.set(path, new Uint8Array(await file.arrayBuffer()))
+    report.imported++
+  }
+
+  // Unlike a ZIP's file name, the picked folder's name says nothing once we descend into a sub-folder.
+  const result = detectImportRoot({ pack: { name, files }, report }, options)
+  if (result.report.root) result.pack.name = packRootName(result.report.root)
+  return result
+}
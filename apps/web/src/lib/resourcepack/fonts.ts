@@ -1,4 +1,5 @@
 import type { ResourcePack, FontDefinition, BitmapFontProvider } from './types'
+import { cloneVfs } from './vfs'
 
 const FONT_BASE_PATH = 'assets/minecraft/font/'
 const TEXTURE_BASE_PATH = 'assets/minecraft/textures/font/'
@@ -31,7 +32,7 @@ export function writeFontFile(
   const json = JSON.stringify(definition, null, 2)
   const data = new TextEncoder().encode(json)
 
-  const newFiles = new Map(pack.files)
+  const newFiles = cloneVfs(pack.files)
   newFiles.set(path, data)
 
   return { ...pack, files: newFiles }
@@ -213,7 +214,7 @@ export async function uploadFontTexture(
   const data = new Uint8Array(await file.arrayBuffer())
   const path = `${TEXTURE_BASE_PATH}${file.name}`
 
-  const newFiles = new Map(pack.files)
+  const newFiles = cloneVfs(pack.files)
   newFiles.set(path, data)
 
   return { ...pack, files: newFiles }
@@ -0,0 +1,85 @@
+import type { PackSettings } from './metadata'
+import type { ResourcePack } from './types'
+
+export type HistoryEntry = {
+  pack: ResourcePack
+  label: string
+  timestamp: number
+  // Set when the edit also replaced the pack settings (restoring a snapshot), so undo and redo
+  // can put the matching settings back.
+  settings?: SettingsChange
+}
+
+export type SettingsChange = {
+  before: PackSettings
+  after: PackSettings
+}
+
+export type PackHistory = {
+  entries: HistoryEntry[]
+  index: number
+}
+
+// Entries share unchanged Uint8Array buffers with each other (see cloneVfs),
+// so the cost of a step is roughly the Map itself plus whatever the edit wrote.
+export const MAX_HISTORY_ENTRIES = 100
+
+export function createHistory(pack: ResourcePack, label: string): PackHistory {
+  return {
+    entries: [{ pack, label, timestamp: Date.now() }],
+    index: 0,
+  }
+}
+
+export function currentPack(history: PackHistory): ResourcePack {
+  return history.entries[history.index].pack
+}
+
+export function pushHistory(history: PackHistory, pack: ResourcePack, label: string, settings?: SettingsChange): PackHistory {
+  if (pack === currentPack(history)) return history
+
+  // A new edit after undoing drops the redo tail, like every other editor.
+  const entries = history.entries.slice(0, history.index + 1)
+  entries.push({ pack, label, timestamp: Date.now(), settings })
+
+  const overflow = Math.max(0, entries.length - MAX_HISTORY_ENTRIES)
+  const trimmed = overflow > 0 ? entries.slice(overflow) : entries
+
+  return {
+    entries: trimmed,
+    index: trimmed.length - 1,
+  }
+}
+
+export function canUndo(history: PackHistory): boolean {
+  return history.index > 0
+}
+
+export function canRedo(history: PackHistory): boolean {
+  return history.index < history.entries.length - 1
+}
+
+export function undoHistory(history: PackHistory): PackHistory {
+  return canUndo(history) ? { ...history, index: history.index - 1 } : history
+}
+
+export function redoHistory(history: PackHistory): PackHistory {
+  return canRedo(history) ? { ...history, index: history.index + 1 } : history
+}
+
+export function jumpToHistory(history: PackHistory, index: number): PackHistory {
+  if (index < 0 || index >= history.entries.length || index === history.index) return history
+  return { ...history, index }
+}
+
+// The settings to switch to when moving from the current entry to `index`: undoing an entry that
+// replaced them restores its `before`, redoing one applies its `after`. null when none is crossed.
+export function settingsForHistoryMove(history: PackHistory, index: number): PackSettings | null {
+  let settings: PackSettings | null = null
+  if (index < history.index) {
+    for (let i = history.index; i > index; i--) settings = history.entries[i].settings?.before ?? settings
+  } else {
+    for (let i = history.index + 1; i <= index; i++) settings = history.entries[i].settings?.after ?? settings
+  }
+  return settings
+}
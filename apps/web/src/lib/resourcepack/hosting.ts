@@ -0,0 +1,48 @@
+// Helpers for serving an exported pack from a Minecraft server (server.properties).
+
+export type ServerPackInfo = {
+  url: string
+  sha1: string
+  id: string
+}
+
+export async function sha1Hex(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-1', toBufferSource(bytes))
+  return toHex(new Uint8Array(digest))
+}
+
+// Stable across exports of the same pack name, so clients keep treating it as the same pack.
+// Name-based (version 5 style) UUID: SHA-1 of a fixed prefix + name, with version/variant bits set.
+export async function derivePackId(packName: string): Promise<string> {
+  const digest = new Uint8Array(
+    await crypto.subtle.digest('SHA-1', new TextEncoder().encode(`mrwm-resource-pack:${packName}`)),
+  )
+  const bytes = digest.slice(0, 16)
+  bytes[6] = (bytes[6] & 0x0f) | 0x50
+  bytes[8] = (bytes[8] & 0x3f) | 0x80
+
+  const hex = toHex(bytes)
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`
+}
+
+export function buildServerPropertiesSnippet(info: ServerPackInfo): string {
+  return [
+    `resource-pack=${escapePropertyValue(info.url)}`,
+    `resource-pack-sha1=${info.sha1}`,
+    `resource-pack-id=${info.id}`,
+  ].join('\n') + '\n'
+}
+
+function escapePropertyValue(value: string): string {
+  // Match how the server itself writes server.properties (java.util.Properties escaping).
+  return value.replace(/\\/g, '\\\\').replace(/([:=])/g, '\\$1')
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+function toBufferSource(bytes: Uint8Array): Uint8Array<ArrayBuffer> {
+  // Only copy when the bytes live in a SharedArrayBuffer, which digest() rejects.
+  return bytes.buffer instanceof ArrayBuffer ? (bytes as Uint8Array<ArrayBuffer>) : new Uint8Array(bytes)
+}
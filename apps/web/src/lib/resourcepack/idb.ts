@@ -0,0 +1,67 @@
+// Minimal promise wrappers around IndexedDB; the schema lives here so every store is created in one place.
+
+export const DB_NAME = 'mrwm'
+export const DB_VERSION = 2
+
+// One record per pack: name, settings and bookkeeping. Keyed by `id`.
+export const PACKS_STORE = 'packs'
+// One record per file: { packId, path, data }. Keyed by [packId, path] so a pack's files form one key range.
+export const FILES_STORE = 'files'
+// Snapshot records: name, settings and a path -> content hash map. Indexed by packId.
+export const SNAPSHOTS_STORE = 'snapshots'
+// File contents shared by all snapshots, keyed by content hash and reference-counted.
+export const BLOBS_STORE = 'blobs'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+export function openPackDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'))
+        return
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(PACKS_STORE)) db.createObjectStore(PACKS_STORE, { keyPath: 'id' })
+        if (!db.objectStoreNames.contains(FILES_STORE)) db.createObjectStore(FILES_STORE, { keyPath: ['packId', 'path'] })
+        if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+          db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' }).createIndex('packId', 'packId')
+        }
+        if (!db.objectStoreNames.contains(BLOBS_STORE)) db.createObjectStore(BLOBS_STORE, { keyPath: 'hash' })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error ?? new Error('Failed to open IndexedDB'))
+      request.onblocked = () => reject(new Error('IndexedDB is blocked by another tab running an older version'))
+    })
+    // Let a later call retry instead of caching the failure forever.
+    dbPromise.catch(() => {
+      dbPromise = null
+    })
+  }
+  return dbPromise
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'))
+  })
+}
+
+// Resolves once everything queued on the transaction is committed; rejects if any of it failed
+// (including QuotaExceededError, which only shows up here).
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error ?? new Error('IndexedDB transaction failed'))
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'))
+  })
+}
+
+// Every [packId, path] key. Arrays sort after strings in IndexedDB, so [packId, []] is past the last path.
+export function packFilesRange(packId: string): IDBKeyRange {
+  return IDBKeyRange.bound([packId], [packId, []])
+}
@@ -0,0 +1,217 @@
+// Translates legacy model `overrides` (before 1.21.4) into an item model definition for `items/`.
+// The game picks the last override whose predicates all hold (value >= threshold), so each predicate
+// becomes a node that splits the remaining overrides by the values it can take.
+
+export type LegacyOverride = {
+  predicate?: Record<string, unknown>
+  model?: string
+}
+
+export type ItemModel =
+  | { type: 'minecraft:model'; model: string }
+  | { type: 'minecraft:condition'; property: string; on_true: ItemModel; on_false: ItemModel }
+  | {
+      type: 'minecraft:range_dispatch'
+      property: string
+      index?: number
+      scale?: number
+      source?: string
+      target?: string
+      entries: { threshold: number; model: ItemModel }[]
+      fallback: ItemModel
+    }
+  | {
+      type: 'minecraft:select'
+      property: string
+      cases: { when: string | string[]; model: ItemModel }[]
+      fallback: ItemModel
+    }
+
+export type OverrideConversion = {
+  model: ItemModel
+  // Overrides that made it into the model.
+  translated: number
+  warnings: string[]
+}
+
+type Dimension =
+  | { kind: 'range'; predicate: string; property: string; options?: Record<string, number | string> }
+  | { kind: 'condition'; predicate: string; property: string }
+  // Discrete states of one or more predicates; `fallback` is the state with no case of its own.
+  | {
+      kind: 'select'
+      predicates: string[]
+      property: string
+      fallback: Record<string, number>
+      cases: { when: string; values: Record<string, number> }[]
+    }
+
+type Candidate = {
+  predicate: Record<string, number>
+  model: string
+}
+
+// Legacy trim_type values of the trim materials.
+const TRIM_MATERIALS: [string, number][] = [
+  ['quartz', 0.1],
+  ['iron', 0.2],
+  ['netherite', 0.3],
+  ['redstone', 0.4],
+  ['copper', 0.5],
+  ['gold', 0.6],
+  ['emerald', 0.7],
+  ['diamond', 0.8],
+  ['lapis', 0.9],
+  ['amethyst', 1.0],
+]
+
+// Outermost first. Some predicates read differently depending on the item.
+function dimensionsFor(itemName: string): Dimension[] {
+  return [
+    { kind: 'range', predicate: 'custom_model_data', property: 'minecraft:custom_model_data', options: { index: 0 } },
+    {
+      kind: 'select',
+      predicates: ['lefthanded'],
+      property: 'minecraft:main_hand',
+      fallback: { lefthanded: 0 },
+      cases: [{ when: 'left', values: { lefthanded: 1 } }],
+    },
+    { kind: 'condition', predicate: 'broken', property: 'minecraft:broken' },
+    { kind: 'condition', predicate: 'damaged', property: 'minecraft:damaged' },
+    { kind: 'range', predicate: 'damage', property: 'minecraft:damage' },
+    { kind: 'condition', predicate: 'cast', property: 'minecraft:fishing_rod/cast' },
+    { kind: 'condition', predicate: 'blocking', property: 'minecraft:using_item' },
+    { kind: 'condition', predicate: 'throwing', property: 'minecraft:using_item' },
+    { kind: 'condition', predicate: 'tooting', property: 'minecraft:using_item' },
+    { kind: 'condition', predicate: 'pulling', property: 'minecraft:using_item' },
+    {
+      kind: 'select',
+      predicates: ['charged', 'firework'],
+      property: 'minecraft:charge_type',
+      fallback: { charged: 0, firework: 0 },
+      cases: [
+        { when: 'arrow', values: { charged: 1, firework: 0 } },
+        { when: 'rocket', values: { charged: 1, firework: 1 } },
+      ],
+    },
+    itemName === 'crossbow'
+      ? { kind: 'range', predicate: 'pull', property: 'minecraft:crossbow/pull' }
+      : // pull was use ticks / 20.
+        { kind: 'range', predicate: 'pull', property: 'minecraft:use_duration', options: { scale: 0.05 } },
+    { kind: 'range', predicate: 'cooldown', property: 'minecraft:cooldown' },
+    { kind: 'range', predicate: 'time', property: 'minecraft:time', options: { source: 'daytime' } },
+    {
+      kind: 'range',
+      predicate: 'angle',
+      property: 'minecraft:compass',
+      options: { target: itemName === 'recovery_compass' ? 'recovery' : 'spawn' },
+    },
+    {
+      kind: 'select',
+      predicates: ['trim_type'],
+      property: 'minecraft:trim_material',
+      fallback: { trim_type: 0 },
+      cases: TRIM_MATERIALS.map(([material, value]) => ({ when: `minecraft:${material}`, values: { trim_type: value } })),
+    },
+    { kind: 'range', predicate: 'filled', property: 'minecraft:bundle/fullness' },
+  ]
+}
+
+export function overridesToItemModel(
+  overrides: LegacyOverride[],
+  fallback: ItemModel,
+  itemName: string,
+  file: string,
+): OverrideConversion {
+  const warnings: string[] = []
+  const dimensions = dimensionsFor(itemName)
+  const known = new Set(dimensions.flatMap((d) => (d.kind === 'select' ? d.predicates : [d.predicate])))
+
+  const candidates: Candidate[] = []
+  const dropped = new Map<string, number>()
+  for (const override of overrides) {
+    if (typeof override?.model !== 'string') {
+      warnings.push(`${file}: skipped an override without a model`)
+      continue
+    }
+    const predicate: Record<string, number> = {}
+    let unknown: string | null = null
+    for (const [name, value] of Object.entries(override.predicate ?? {})) {
+      if (!known.has(name) || typeof value !== 'number') unknown = name
+      else predicate[name] = value
+    }
+    if (unknown) dropped.set(unknown, (dropped.get(unknown) ?? 0) + 1)
+    else candidates.push({ predicate, model: override.model })
+  }
+  for (const [name, count] of dropped) {
+    warnings.push(`${file}: predicate "${name}" has no item model equivalent; dropped ${count} override${count === 1 ? '' : 's'}`)
+  }
+
+  return { model: build(candidates, dimensions, fallback), translated: candidates.length, warnings }
+}
+
+function build(candidates: Candidate[], dimensions: Dimension[], fallback: ItemModel): ItemModel {
+  if (dimensions.length === 0) {
+    const winner = candidates[candidates.length - 1]
+    return winner ? { type: 'minecraft:model', model: winner.model } : fallback
+  }
+
+  const [dimension, ...rest] = dimensions
+  const predicates = dimension.kind === 'select' ? dimension.predicates : [dimension.predicate]
+  if (!candidates.some((c) => predicates.some((p) => p in c.predicate))) return build(candidates, rest, fallback)
+
+  // The overrides still in play once the predicates have these values.
+  const holding = (values: Record<string, number>) =>
+    candidates.filter((c) => predicates.every((p) => !(p in c.predicate) || c.predicate[p] <= values[p]))
+
+  if (dimension.kind === 'condition') {
+    const onTrue = build(holding({ [dimension.predicate]: 1 }), rest, fallback)
+    const onFalse = build(holding({ [dimension.predicate]: 0 }), rest, fallback)
+    if (sameModel(onTrue, onFalse)) return onTrue
+    return { type: 'minecraft:condition', property: dimension.property, on_true: onTrue, on_false: onFalse }
+  }
+
+  if (dimension.kind === 'select') {
+    const otherwise = build(holding(dimension.fallback), rest, fallback)
+    const cases: { when: string[]; model: ItemModel }[] = []
+    for (const option of dimension.cases) {
+      const model = build(holding(option.values), rest, fallback)
+      if (sameModel(model, otherwise)) continue
+      const same = cases.find((c) => sameModel(c.model, model))
+      if (same) same.when.push(option.when)
+      else cases.push({ when: [option.when], model })
+    }
+    if (cases.length === 0) return otherwise
+    return {
+      type: 'minecraft:select',
+      property: dimension.property,
+      cases: cases.map((c) => ({ when: c.when.length === 1 ? c.when[0] : c.when, model: c.model })),
+      fallback: otherwise,
+    }
+  }
+
+  // Below the lowest threshold none of the overrides naming the predicate hold.
+  const predicate = dimension.predicate
+  const thresholds = Array.from(new Set(candidates.filter((c) => predicate in c.predicate).map((c) => c.predicate[predicate]))).sort(
+    (a, b) => a - b,
+  )
+  const below = build(
+    candidates.filter((c) => !(predicate in c.predicate)),
+    rest,
+    fallback,
+  )
+  const entries: { threshold: number; model: ItemModel }[] = []
+  let previous = below
+  for (const threshold of thresholds) {
+    const model = build(holding({ [predicate]: threshold }), rest, fallback)
+    if (sameModel(model, previous)) continue
+    entries.push({ threshold, model })
+    previous = model
+  }
+  if (entries.length === 0) return below
+  return { type: 'minecraft:range_dispatch', property: dimension.property, ...dimension.options, entries, fallback: below }
+}
+
+function sameModel(a: ItemModel, b: ItemModel): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
@@ -1,32 +1,57 @@
+import { filterPatternError, parseFilterBlock, sameFilterPatterns, serializeFilterPattern, type FilterPattern } from './filter'
+import { isTextComponent, type TextComponent } from './textComponent'
 import type { ResourcePack } from './types'
-import { cloneVfs, readJson, writeJson } from './vfs'
-import { findByPackFormat } from './versioning'
+import { cloneVfs, createVfs, readJson, writeJson } from './vfs'
+import { LATEST_RELEASE, compareFormats, type PackFormatValue } from './versioning'
+
+// `supported_formats` is written as a single format, [min, max] or { min_inclusive, max_inclusive };
+// all three mean an inclusive range.
+export type FormatRange = {
+  min: number
+  max: number
+}
 
 export type PackMetadata = {
   packFormat: number
-  description: string
+  description: TextComponent
+  supportedFormats: FormatRange | null
+  minFormat: PackFormatValue | null
+  maxFormat: PackFormatValue | null
+  // `filter.block`; null when the file has no filter.
+  filter: FilterPattern[] | null
 }
 
 export type PackSettings = {
   name: string
   versionId: string | 'custom'
   packFormat: number
-  description: string
+  // A plain (possibly § coded) string or a JSON text component, written to pack.mcmeta as is.
+  description: TextComponent
+  // Multi-version compatibility. null removes the key from pack.mcmeta; undefined (settings saved
+  // before these existed) leaves whatever the file has, except that min_format/max_format are
+  // derived from packFormat when the file's range doesn't cover it.
+  supportedFormats?: FormatRange | null
+  minFormat?: PackFormatValue | null
+  maxFormat?: PackFormatValue | null
+  // Same convention; an empty list removes `filter` as well.
+  filter?: FilterPattern[] | null
 }
 
+// From this format on (25w31a) the game reads min_format/max_format instead of pack_format.
+export const MIN_FORMAT_FIELDS_FORMAT = 65
+
 export function defaultPackSettings(): PackSettings {
-  // Pick a modern default; user can change it.
-  const packFormat = 34
+  // New packs target the latest release; the user can change it.
   return {
     name: 'resourcepack',
-    versionId: findByPackFormat(packFormat)?.id ?? 'custom',
-    packFormat,
+    versionId: LATEST_RELEASE.id,
+    packFormat: LATEST_RELEASE.packFormat,
     description: 'Generated with Minecraft Resource Pack Web Manager',
   }
 }
 
 export function createEmptyPack(settings: PackSettings): ResourcePack {
-  const files = new Map<string, Uint8Array>()
+  const files = createVfs()
   const pack: ResourcePack = {
     name: settings.name.trim() || 'resourcepack',
     files,
@@ -35,13 +60,46 @@ export function createEmptyPack(settings: PackSettings): ResourcePack {
 }
 
 export function readPackMetadata(pack: ResourcePack): PackMetadata | null {
-  const mcmeta = readJson<{ pack?: { pack_format?: unknown; description?: unknown } }>(pack.files, 'pack.mcmeta')
-  const pf = mcmeta?.pack?.pack_format
-  const desc = mcmeta?.pack?.description
+  const root = readJson<unknown>(pack.files, 'pack.mcmeta')
+  if (!isRecord(root) || !isRecord(root.pack)) return null
+  const section = root.pack
+
+  const minFormat = parseFormatValue(section.min_format)
+  const maxFormat = parseFormatValue(section.max_format)
+  // Packs made for 25w31a+ may only declare min_format/max_format.
+  const fallback = maxFormat ?? minFormat
+  const packFormat =
+    typeof section.pack_format === 'number' ? section.pack_format : typeof fallback === 'number' ? fallback : fallback?.[0]
+  if (packFormat === undefined) return null
+
+  return {
+    packFormat,
+    description: isTextComponent(section.description) ? section.description : '',
+    supportedFormats: parseSupportedFormats(section.supported_formats),
+    minFormat,
+    maxFormat,
+    filter: parseFilterBlock(root.filter),
+  }
+}
 
-  if (typeof pf !== 'number') return null
-  if (typeof desc !== 'string') return { packFormat: pf, description: '' }
-  return { packFormat: pf, description: desc }
+// Accepts every form the game does; null for anything else (including a missing key).
+export function parseSupportedFormats(value: unknown): FormatRange | null {
+  if (isWholeNumber(value)) return { min: value, max: value }
+  if (Array.isArray(value) && value.length === 2 && value.every(isWholeNumber)) return { min: value[0], max: value[1] }
+  if (isRecord(value) && isWholeNumber(value.min_inclusive) && isWholeNumber(value.max_inclusive)) {
+    return { min: value.min_inclusive, max: value.max_inclusive }
+  }
+  return null
+}
+
+// min_format/max_format: a whole format, [major] or [major, minor].
+export function parseFormatValue(value: unknown): PackFormatValue | null {
+  if (isWholeNumber(value)) return value
+  if (Array.isArray(value) && value.every(isWholeNumber)) {
+    if (value.length === 1) return value[0]
+    if (value.length === 2) return [value[0], value[1]]
+  }
+  return null
 }
 
 export function applyPackSettings(pack: ResourcePack, settings: PackSettings): ResourcePack {
@@ -51,13 +109,58 @@ export function applyPackSettings(pack: ResourcePack, settings: PackSettings): R
     throw new Error('pack_format must be a positive number')
   }
 
+  // Rewrite only the keys the settings cover; anything else in pack.mcmeta (filter, overlays,
+  // language, unknown keys) is kept as is.
   const files = cloneVfs(pack.files)
-  writeJson(files, 'pack.mcmeta', {
-    pack: {
-      pack_format: packFormat,
-      description: settings.description ?? '',
-    },
-  })
+  const existing = readJson<unknown>(files, 'pack.mcmeta')
+  const root = isRecord(existing) ? existing : {}
+  const previous = isRecord(root.pack) ? root.pack : {}
+  const section: Record<string, unknown> = { ...previous, pack_format: packFormat, description: settings.description ?? '' }
+
+  if (settings.supportedFormats !== undefined) {
+    const current = parseSupportedFormats(previous.supported_formats)
+    const next = settings.supportedFormats
+    if (!next) delete section.supported_formats
+    // Keep the file's own spelling when the range hasn't changed.
+    else if (!current || current.min !== next.min || current.max !== next.max) section.supported_formats = [next.min, next.max]
+  }
+  setFormatKey(section, previous, 'min_format', settings.minFormat)
+  setFormatKey(section, previous, 'max_format', settings.maxFormat)
+  // Left unset, the file's range is kept only while it still covers pack_format; otherwise it follows
+  // pack_format (or goes, below the formats that read it) so a format change can't leave a stale claim.
+  if (settings.minFormat === undefined || settings.maxFormat === undefined) {
+    const min = parseFormatValue(section.min_format)
+    const max = parseFormatValue(section.max_format)
+    const covers = min !== null && max !== null && compareFormats(min, packFormat) <= 0 && compareFormats(max, packFormat) >= 0
+    if (!covers) {
+      for (const key of ['min_format', 'max_format'] as const) {
+        if (settings[key === 'min_format' ? 'minFormat' : 'maxFormat'] !== undefined) continue
+        if (packFormat >= MIN_FORMAT_FIELDS_FORMAT) section[key] = packFormat
+        else delete section[key]
+      }
+    }
+  }
+  if (packFormat >= MIN_FORMAT_FIELDS_FORMAT) {
+    section.min_format ??= packFormat
+    section.max_format ??= packFormat
+  }
+
+  const next: Record<string, unknown> = { ...root, pack: section }
+  if (settings.filter !== undefined) {
+    const patterns = settings.filter ?? []
+    patterns.forEach((pattern, i) => {
+      const error = filterPatternError(pattern)
+      if (error) throw new Error(`filter.block entry ${i + 1}: ${error}`)
+    })
+    const current = parseFilterBlock(root.filter)
+    if (patterns.length === 0) delete next.filter
+    // Rewritten only when changed, so unknown keys on the entries survive.
+    else if (!current || !sameFilterPatterns(current, patterns)) {
+      next.filter = { ...(isRecord(root.filter) ? root.filter : {}), block: patterns.map(serializeFilterPattern) }
+    }
+  }
+
+  writeJson(files, 'pack.mcmeta', next)
 
   return {
     ...pack,
@@ -65,3 +168,26 @@ export function applyPackSettings(pack: ResourcePack, settings: PackSettings): R
     files,
   }
 }
+
+function setFormatKey(
+  section: Record<string, unknown>,
+  previous: Record<string, unknown>,
+  key: 'min_format' | 'max_format',
+  value: PackFormatValue | null | undefined,
+) {
+  if (value === undefined) return
+  if (value === null) {
+    delete section[key]
+    return
+  }
+  const current = parseFormatValue(previous[key])
+  if (current === null || compareFormats(current, value) !== 0) section[key] = value
+}
+
+function isWholeNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value)
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
@@ -0,0 +1,252 @@
+import { MIN_FORMAT_FIELDS_FORMAT, parseFormatValue, parseSupportedFormats, type FormatRange } from './metadata'
+import type { ResourcePack, Vfs } from './types'
+import { cloneVfs, createVfs, diffVfs, readJson, writeJson } from './vfs'
+import { compareFormats, formatToString, type PackFormatValue } from './versioning'
+
+// Overlays (pack.mcmeta `overlays.entries`) are directories at the pack root laid out like the pack
+// itself. When the game's format falls in an entry's range, that directory's files are applied on
+// top of the base pack; later entries win over earlier ones.
+
+export type OverlayEntry = {
+  directory: string
+  // `formats`, read by clients before 25w31a.
+  formats: FormatRange | null
+  // `min_format`/`max_format`, read from 25w31a (format 65) on.
+  minFormat: PackFormatValue | null
+  maxFormat: PackFormatValue | null
+}
+
+// Where each path of the effective file set comes from: '' for the base pack, else an overlay directory.
+export type EffectiveFile = {
+  path: string
+  source: string
+}
+
+const OVERLAY_DIRECTORY = /^[a-z0-9_-]+$/
+
+export function isValidOverlayDirectory(name: string): boolean {
+  return OVERLAY_DIRECTORY.test(name) && name !== 'assets'
+}
+
+export function readOverlays(pack: ResourcePack): OverlayEntry[] {
+  const mcmeta = readJson<{ overlays?: { entries?: unknown } }>(pack.files, 'pack.mcmeta')
+  const entries = mcmeta?.overlays?.entries
+  if (!Array.isArray(entries)) return []
+
+  const overlays: OverlayEntry[] = []
+  for (const raw of entries) {
+    if (typeof raw !== 'object' || raw === null) continue
+    const entry = raw as Record<string, unknown>
+    if (typeof entry.directory !== 'string') continue
+    overlays.push({
+      directory: entry.directory,
+      formats: parseSupportedFormats(entry.formats),
+      minFormat: parseFormatValue(entry.min_format),
+      maxFormat: parseFormatValue(entry.max_format),
+    })
+  }
+  return overlays
+}
+
+// Replaces the overlay list in pack.mcmeta; the rest of the file is kept. Overlay files are not touched.
+export function writeOverlays(pack: ResourcePack, overlays: OverlayEntry[]): ResourcePack {
+  for (const overlay of overlays) {
+    if (!isValidOverlayDirectory(overlay.directory)) {
+      throw new Error(`Invalid overlay directory "${overlay.directory}" (use a-z, 0-9, _ and -)`)
+    }
+    if (!overlay.formats && (overlay.minFormat === null || overlay.maxFormat === null)) {
+      throw new Error(`Overlay ${overlay.directory} needs a format range`)
+    }
+  }
+
+  const files = cloneVfs(pack.files)
+  const mcmeta = readJson<{ overlays?: { entries?: unknown } } & Record<string, unknown>>(files, 'pack.mcmeta')
+  if (!mcmeta) throw new Error('pack.mcmeta is missing; apply the pack settings first')
+
+  // Unknown keys of existing entries are carried over.
+  const previousEntries = new Map<string, Record<string, unknown>>()
+  if (Array.isArray(mcmeta.overlays?.entries)) {
+    for (const raw of mcmeta.overlays.entries as unknown[]) {
+      if (typeof raw === 'object' && raw !== null && typeof (raw as { directory?: unknown }).directory === 'string') {
+        previousEntries.set((raw as { directory: string }).directory, raw as Record<string, unknown>)
+      }
+    }
+  }
+
+  if (overlays.length === 0) {
+    delete mcmeta.overlays
+  } else {
+    const entries = overlays.map((o) => serializeOverlay(o, previousEntries.get(o.directory) ?? {}))
+    mcmeta.overlays = { ...mcmeta.overlays, entries }
+  }
+  writeJson(files, 'pack.mcmeta', mcmeta)
+  return { ...pack, files }
+}
+
+// An entry covering `from`–`to` with the fields each client generation needs: `formats` when the
+// range reaches below format 65, `min_format`/`max_format` when it reaches 65 or above.
+export function overlayFromRange(directory: string, from: PackFormatValue, to: PackFormatValue): OverlayEntry {
+  if (compareFormats(from, to) > 0) throw new Error(`Overlay ${directory}: ${formatToString(from)} is above ${formatToString(to)}`)
+  const major = (f: PackFormatValue) => (typeof f === 'number' ? f : f[0])
+  const legacy = compareFormats(from, MIN_FORMAT_FIELDS_FORMAT) < 0
+  const modern = compareFormats(to, MIN_FORMAT_FIELDS_FORMAT) >= 0
+  return {
+    directory,
+    formats: legacy ? { min: major(from), max: major(to) } : null,
+    minFormat: modern ? from : null,
+    maxFormat: modern ? to : null,
+  }
+}
+
+// The range an entry covers overall, for editing: the lowest and highest format of either declaration.
+export function overlayBounds(overlay: OverlayEntry): [PackFormatValue, PackFormatValue] | null {
+  const candidates: [PackFormatValue, PackFormatValue][] = []
+  if (overlay.formats) candidates.push([overlay.formats.min, overlay.formats.max])
+  if (overlay.minFormat !== null && overlay.maxFormat !== null) candidates.push([overlay.minFormat, overlay.maxFormat])
+  if (candidates.length === 0) return null
+  const from = candidates.map((c) => c[0]).reduce((a, b) => (compareFormats(a, b) <= 0 ? a : b))
+  const to = candidates.map((c) => c[1]).reduce((a, b) => (compareFormats(a, b) >= 0 ? a : b))
+  return [from, to]
+}
+
+export function overlayFileCount(pack: ResourcePack, directory: string): number {
+  const prefix = `${directory}/`
+  let count = 0
+  for (const path of pack.files.keys()) {
+    if (path.startsWith(prefix)) count++
+  }
+  return count
+}
+
+// Renames an entry and moves its files along.
+export function renameOverlay(pack: ResourcePack, from: string, to: string): ResourcePack {
+  if (from === to) return pack
+  const overlays = readOverlays(pack)
+  if (overlays.some((o) => o.directory === to)) throw new Error(`There already is an overlay named ${to}`)
+  const next = writeOverlays(
+    pack,
+    overlays.map((o) => (o.directory === from ? { ...o, directory: to } : o)),
+  )
+
+  const prefix = `${from}/`
+  const files = cloneVfs(next.files)
+  for (const [path, data] of next.files) {
+    if (!path.startsWith(prefix)) continue
+    files.delete(path)
+    files.set(`${to}/${path.slice(prefix.length)}`, data)
+  }
+  return { ...next, files }
+}
+
+// Drops the entry and, with `deleteFiles`, everything under its directory.
+export function removeOverlay(pack: ResourcePack, directory: string, deleteFiles: boolean): ResourcePack {
+  const next = writeOverlays(
+    pack,
+    readOverlays(pack).filter((o) => o.directory !== directory),
+  )
+  if (!deleteFiles) return next
+
+  const prefix = `${directory}/`
+  const files = cloneVfs(next.files)
+  for (const path of Array.from(files.keys())) {
+    if (path.startsWith(prefix)) files.delete(path)
+  }
+  return { ...next, files }
+}
+
+// Which of the two range declarations a client on `format` reads (falling back to the other).
+export function overlayRange(overlay: OverlayEntry, format: PackFormatValue): [PackFormatValue, PackFormatValue] | null {
+  const declared = overlay.minFormat !== null && overlay.maxFormat !== null ? ([overlay.minFormat, overlay.maxFormat] as const) : null
+  const legacy = overlay.formats ? ([overlay.formats.min, overlay.formats.max] as const) : null
+  const range = compareFormats(format, MIN_FORMAT_FIELDS_FORMAT) >= 0 ? (declared ?? legacy) : (legacy ?? declared)
+  return range ? [range[0], range[1]] : null
+}
+
+export function overlayApplies(overlay: OverlayEntry, format: PackFormatValue): boolean {
+  const range = overlayRange(overlay, format)
+  return range !== null && compareFormats(format, range[0]) >= 0 && compareFormats(format, range[1]) <= 0
+}
+
+export function describeOverlayRange(overlay: OverlayEntry): string {
+  const parts: string[] = []
+  if (overlay.formats) parts.push(`formats ${overlay.formats.min}–${overlay.formats.max}`)
+  if (overlay.minFormat !== null && overlay.maxFormat !== null) {
+    parts.push(`min/max ${formatToString(overlay.minFormat)}–${formatToString(overlay.maxFormat)}`)
+  }
+  return parts.join(', ') || 'no range'
+}
+
+// The files a client on `format` ends up with, sorted by path. Overlay directories themselves are not part of it.
+export function effectiveFileSet(pack: ResourcePack, format: PackFormatValue): EffectiveFile[] {
+  const overlays = readOverlays(pack)
+  const sources = new Map<string, string>()
+  for (const path of pack.files.keys()) {
+    if (!overlayOf(path, overlays)) sources.set(path, '')
+  }
+  for (const overlay of overlays) {
+    if (!overlayApplies(overlay, format)) continue
+    const prefix = `${overlay.directory}/`
+    for (const path of pack.files.keys()) {
+      if (path.startsWith(prefix)) sources.set(path.slice(prefix.length), overlay.directory)
+    }
+  }
+  return Array.from(sources, ([path, source]) => ({ path, source })).sort((a, b) => a.path.localeCompare(b.path))
+}
+
+// The pack as tools should see it while editing `directory`: the base pack with that overlay's files on top,
+// and pack_format set to the top of the overlay's range so tools pick the matching file layouts.
+export function createOverlayView(pack: ResourcePack, directory: string): ResourcePack {
+  const overlays = readOverlays(pack)
+  const overlay = overlays.find((o) => o.directory === directory)
+  if (!overlay) throw new Error(`No overlay named ${directory}`)
+
+  const files: Vfs = createVfs()
+  const prefix = `${directory}/`
+  for (const [path, data] of pack.files) {
+    if (!overlayOf(path, overlays)) files.set(path, data)
+  }
+  for (const [path, data] of pack.files) {
+    if (path.startsWith(prefix)) files.set(path.slice(prefix.length), data)
+  }
+
+  const top = overlay.formats?.max ?? overlay.maxFormat
+  const mcmeta = readJson<{ pack?: Record<string, unknown> }>(files, 'pack.mcmeta')
+  if (top !== null && mcmeta?.pack) {
+    writeJson(files, 'pack.mcmeta', { ...mcmeta, pack: { ...mcmeta.pack, pack_format: typeof top === 'number' ? top : top[0] } })
+  }
+  return { ...pack, files }
+}
+
+// Maps edits made to a view from createOverlayView back into the overlay directory. Files that are
+// written go into the overlay (shadowing the base copy); deleting is only possible for overlay files.
+// pack.mcmeta changes are dropped: the view's copy is synthetic.
+export function applyOverlayView(pack: ResourcePack, directory: string, view: ResourcePack, edited: ResourcePack): ResourcePack {
+  const changes = diffVfs(view.files, edited.files)
+  const files = cloneVfs(pack.files)
+  for (const path of [...changes.added, ...changes.modified]) {
+    if (path === 'pack.mcmeta') continue
+    files.set(`${directory}/${path}`, edited.files.get(path)!)
+  }
+  for (const path of changes.deleted) {
+    files.delete(`${directory}/${path}`)
+  }
+  return { ...pack, files }
+}
+
+function overlayOf(path: string, overlays: OverlayEntry[]): OverlayEntry | undefined {
+  const slash = path.indexOf('/')
+  if (slash < 0) return undefined
+  const top = path.slice(0, slash)
+  return overlays.find((o) => o.directory === top)
+}
+
+function serializeOverlay(overlay: OverlayEntry, previous: Record<string, unknown>): Record<string, unknown> {
+  const rest = { ...previous }
+  for (const key of ['formats', 'min_format', 'max_format', 'directory']) delete rest[key]
+  const entry: Record<string, unknown> = {}
+  if (overlay.formats) entry.formats = [overlay.formats.min, overlay.formats.max]
+  if (overlay.minFormat !== null) entry.min_format = overlay.minFormat
+  if (overlay.maxFormat !== null) entry.max_format = overlay.maxFormat
+  entry.directory = overlay.directory
+  return { ...entry, ...rest }
+}
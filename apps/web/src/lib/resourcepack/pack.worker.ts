@@ -0,0 +1,70 @@
+import { analyzePack, findDuplicateTextures, findUnusedFiles } from './analyzer'
+import { buildCompressionReport } from './compression'
+import type { PackTaskRequest, PackTaskResponse } from './tasks'
+import type { ProgressCallback, ResourcePack } from './types'
+import { validatePack } from './validation'
+import { createVfs } from './vfs'
+import { exportZipBytes, importZipWithReport, readZipCompressedSizes } from './zip'
+
+// Posting a message per file would flood the main thread on 40k-file packs.
+const PROGRESS_INTERVAL_MS = 50
+
+self.onmessage = async (e: MessageEvent<PackTaskRequest>) => {
+  try {
+    await handle(e.data)
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) })
+  }
+}
+
+async function handle(request: PackTaskRequest): Promise<void> {
+  const onProgress = createProgressReporter()
+
+  switch (request.type) {
+    case 'import': {
+      const { pack, report } = await importZipWithReport(request.file, { onProgress })
+      const files = new Map(pack.files)
+      post({ type: 'import', name: pack.name, files, report }, Array.from(files.values()))
+      return
+    }
+
+    case 'export': {
+      const bytes = exportZipBytes(request.files, { ...request.settings, onProgress })
+      const report = buildCompressionReport(request.files, readZipCompressedSizes(bytes))
+      post({ type: 'export', bytes, report }, [bytes])
+      return
+    }
+
+    case 'analyze': {
+      const pack: ResourcePack = { name: request.name, files: createVfs(request.files) }
+      const total = pack.files.size * 2
+
+      // Two passes over the pack; report them as one bar.
+      const stats = analyzePack(pack, (done) => onProgress(done, total))
+      const unused = findUnusedFiles(pack, (done) => onProgress(pack.files.size + done, total))
+      const validation = validatePack(pack)
+      const duplicates = findDuplicateTextures(pack)
+
+      post({ type: 'analyze', analysis: { stats, validation, unused, duplicates } })
+      return
+    }
+  }
+}
+
+function createProgressReporter(): ProgressCallback {
+  let last = 0
+  return (done, total) => {
+    const now = performance.now()
+    if (done < total && now - last < PROGRESS_INTERVAL_MS) return
+    last = now
+    post({ type: 'progress', done, total })
+  }
+}
+
+function post(message: PackTaskResponse, payloads: Uint8Array[] = []): void {
+  // Transfer each underlying buffer once; several entries may share one.
+  const transfer = Array.from(new Set(payloads.map((p) => p.buffer))).filter(
+    (b): b is ArrayBuffer => b instanceof ArrayBuffer,
+  )
+  self.postMessage(message, { transfer })
+}
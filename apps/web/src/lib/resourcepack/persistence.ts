@@ -1,133 +1,329 @@
-import type { ResourcePack } from './types'
-import type { PackSettings } from './metadata'
-import { exportZipBytes } from './zip'
+import type { ResourcePack, Vfs } from './types'
+import { defaultPackSettings, readPackMetadata, type PackSettings } from './metadata'
+import { formatSize } from './analyzer'
+import { FILES_STORE, PACKS_STORE, openPackDb, packFilesRange, requestToPromise, transactionDone } from './idb'
+import { deletePackSnapshots } from './snapshots'
+import { createVfs, diffVfs } from './vfs'
+import { findByPackFormat } from './versioning'
 import { importZip } from './zip'
 
-const STORAGE_KEY_PACK = 'mrwm_current_pack'
-const STORAGE_KEY_SETTINGS = 'mrwm_current_settings'
-const STORAGE_KEY_RECENT = 'mrwm_recent_packs'
-const MAX_RECENT_PACKS = 5
+// Packs live in IndexedDB as one record per file, so a save only writes what changed since the
+// previous save (see diffVfs) instead of re-zipping the whole pack.
 
-type StoredPack = {
+export const DEFAULT_PACK_ID = 'default'
+
+export type StoredPackMeta = {
+  id: string
   name: string
-  zipBase64: string
-  timestamp: number
+  settings: PackSettings
+  updatedAt: number
+  // Bumped by every save; a save that expects an older revision is refused (see savePack).
+  revision: number
+  fileCount: number
+  size: number
+  // pack.png, kept on the record so the project list never has to load files.
+  thumbnail: Uint8Array | null
 }
 
-export function savePackToStorage(pack: ResourcePack, settings: PackSettings): void {
-  try {
-    const zipBytes = exportZipBytes(pack.files)
-    const base64 = bytesToBase64(zipBytes)
+export type StoredPack = {
+  meta: StoredPackMeta
+  pack: ResourcePack
+  settings: PackSettings
+}
 
-    localStorage.setItem(STORAGE_KEY_PACK, JSON.stringify({
-      name: pack.name,
-      zipBase64: base64,
-    }))
+export type StorageEstimate = {
+  usage: number
+  quota: number
+}
 
-    localStorage.setItem(STORAGE_KEY_SETTINGS, JSON.stringify(settings))
-  } catch (e) {
-    console.error('Failed to save pack to localStorage:', e)
-  }
+type StoredFile = {
+  packId: string
+  path: string
+  data: Uint8Array
 }
 
-export async function loadPackFromStorage(): Promise<{ pack: ResourcePack; settings: PackSettings } | null> {
-  try {
-    const packData = localStorage.getItem(STORAGE_KEY_PACK)
-    const settingsData = localStorage.getItem(STORAGE_KEY_SETTINGS)
+// Written by earlier versions as base64 ZIPs; read once, moved into IndexedDB, then removed.
+const LEGACY_KEY_PACK = 'mrwm_current_pack'
+const LEGACY_KEY_SETTINGS = 'mrwm_current_settings'
+const LEGACY_KEY_RECENT = 'mrwm_recent_packs'
+// Legacy values that failed to migrate are moved under this prefix, so they can be recovered by hand
+// without the migration retrying (and failing) on every load.
+const LEGACY_BACKUP_PREFIX = 'mrwm_unmigrated_'
 
-    if (!packData || !settingsData) return null
+const STALE_SAVE_ERROR = 'StaleSaveError'
 
-    const stored = JSON.parse(packData) as { name: string; zipBase64: string }
-    const settings = JSON.parse(settingsData) as PackSettings
+// Which project was open last. Tiny and per-browser, so localStorage is fine for it.
+const ACTIVE_PACK_KEY = 'mrwm_active_pack'
 
-    const zipBytes = base64ToBytes(stored.zipBase64)
-    const blob = new Blob([zipBytes as any], { type: 'application/zip' })
-    const file = new File([blob], `${stored.name}.zip`)
+// Icons are 64x64 in practice; don't copy an oversized one into every list query.
+const MAX_THUMBNAIL_SIZE = 256 * 1024
 
-    const pack = await importZip(file)
+// `baseline` is the file set of the previous successful save of this pack; null rewrites everything.
+// All writes share one transaction, so a failed save (e.g. quota exceeded) leaves the previous save intact.
+// With `expectedRevision`, the save is refused if the stored pack has changed (or is gone) since that
+// revision was loaded or saved, so a tab with stale state can't overwrite newer work.
+export async function savePack(
+  packId: string,
+  pack: ResourcePack,
+  settings: PackSettings,
+  baseline: Vfs | null,
+  expectedRevision: number | null = null,
+): Promise<StoredPackMeta> {
+  const db = await openPackDb()
+  const tx = db.transaction([PACKS_STORE, FILES_STORE], 'readwrite')
+  const done = transactionDone(tx)
+  const packs = tx.objectStore(PACKS_STORE)
+  const files = tx.objectStore(FILES_STORE)
 
-    return { pack, settings }
-  } catch (e) {
-    console.error('Failed to load pack from localStorage:', e)
-    return null
+  const stored = await requestToPromise(packs.get(packId) as IDBRequest<StoredPackMeta | undefined>)
+  const revision = stored?.revision ?? 0
+  if (expectedRevision !== null && (!stored || revision !== expectedRevision)) {
+    tx.abort()
+    await done.catch(() => {})
+    const error = new Error(stored ? 'This project was changed in another tab' : 'This project was deleted in another tab')
+    error.name = STALE_SAVE_ERROR
+    throw error
+  }
+
+  if (baseline) {
+    const changes = diffVfs(baseline, pack.files)
+    for (const path of [...changes.added, ...changes.modified]) {
+      files.put({ packId, path, data: ownBuffer(pack.files.get(path)!) } satisfies StoredFile)
+    }
+    for (const path of changes.deleted) files.delete([packId, path])
+  } else {
+    files.delete(packFilesRange(packId))
+    for (const [path, data] of pack.files) files.put({ packId, path, data: ownBuffer(data) } satisfies StoredFile)
   }
+
+  const meta = buildMeta(packId, pack, settings, revision + 1)
+  packs.put(meta)
+
+  await done
+  return meta
 }
 
-export function clearStoredPack(): void {
+// Newest first.
+export async function listPacks(): Promise<StoredPackMeta[]> {
+  const db = await openPackDb()
+  const tx = db.transaction(PACKS_STORE, 'readonly')
+  const metas = await requestToPromise(tx.objectStore(PACKS_STORE).getAll() as IDBRequest<StoredPackMeta[]>)
+  return metas.sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+export function createPackId(): string {
+  return crypto.randomUUID()
+}
+
+export async function renamePack(packId: string, name: string): Promise<void> {
+  const db = await openPackDb()
+  const tx = db.transaction(PACKS_STORE, 'readwrite')
+  const done = transactionDone(tx)
+  const store = tx.objectStore(PACKS_STORE)
+  const meta = await requestToPromise(store.get(packId) as IDBRequest<StoredPackMeta | undefined>)
+  if (!meta) throw new Error('Project not found')
+  store.put({ ...meta, name, settings: { ...meta.settings, name }, updatedAt: Date.now() } satisfies StoredPackMeta)
+  await done
+}
+
+export async function duplicatePack(packId: string, name: string): Promise<StoredPackMeta> {
+  const stored = await loadPack(packId)
+  if (!stored) throw new Error('Project not found')
+  return savePack(createPackId(), { ...stored.pack, name }, { ...stored.settings, name }, null)
+}
+
+export function getActivePackId(): string | null {
   try {
-    localStorage.removeItem(STORAGE_KEY_PACK)
-    localStorage.removeItem(STORAGE_KEY_SETTINGS)
-  } catch (e) {
-    console.error('Failed to clear stored pack:', e)
+    return localStorage.getItem(ACTIVE_PACK_KEY)
+  } catch {
+    return null
   }
 }
 
-export function saveToRecentPacks(pack: ResourcePack): void {
+export function setActivePackId(packId: string): void {
   try {
-    const zipBytes = exportZipBytes(pack.files)
-    const base64 = bytesToBase64(zipBytes)
+    localStorage.setItem(ACTIVE_PACK_KEY, packId)
+  } catch {
+    // Only costs re-opening the project next time.
+  }
+}
+
+export async function loadPack(packId: string): Promise<StoredPack | null> {
+  const db = await openPackDb()
+  const tx = db.transaction([PACKS_STORE, FILES_STORE], 'readonly')
+  const [meta, records] = await Promise.all([
+    requestToPromise(tx.objectStore(PACKS_STORE).get(packId) as IDBRequest<StoredPackMeta | undefined>),
+    requestToPromise(tx.objectStore(FILES_STORE).getAll(packFilesRange(packId)) as IDBRequest<StoredFile[]>),
+  ])
+  if (!meta) return null
 
-    const recent = getRecentPacks()
+  // Records from before revisions were tracked.
+  meta.revision ??= 0
+  const files = createVfs(records.map((r) => [r.path, r.data] as const))
+  return { meta, pack: { name: meta.name, files }, settings: meta.settings }
+}
 
-    // Remove if already exists
-    const filtered = recent.filter(r => r.name !== pack.name)
+export async function deletePack(packId: string): Promise<void> {
+  const db = await openPackDb()
+  const tx = db.transaction([PACKS_STORE, FILES_STORE], 'readwrite')
+  tx.objectStore(FILES_STORE).delete(packFilesRange(packId))
+  tx.objectStore(PACKS_STORE).delete(packId)
+  await transactionDone(tx)
+  await deletePackSnapshots(packId)
+}
 
-    // Add to front
-    filtered.unshift({
-      name: pack.name,
-      zipBase64: base64,
-      timestamp: Date.now(),
-    })
+// Loads the project that was open last (or the newest one). Call migrateLegacyStorage first.
+export async function loadSavedPack(): Promise<StoredPack | null> {
+  const active = getActivePackId()
+  const stored = active ? await loadPack(active) : null
+  if (stored) return stored
 
-    // Keep only MAX_RECENT_PACKS
-    const trimmed = filtered.slice(0, MAX_RECENT_PACKS)
+  const [newest] = await listPacks()
+  return newest ? loadPack(newest.id) : null
+}
 
-    localStorage.setItem(STORAGE_KEY_RECENT, JSON.stringify(trimmed))
-  } catch (e) {
-    console.error('Failed to save to recent packs:', e)
-  }
+export async function getStorageEstimate(): Promise<StorageEstimate | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null
+  const { usage, quota } = await navigator.storage.estimate()
+  return usage === undefined || quota === undefined ? null : { usage, quota }
 }
 
-export function getRecentPacks(): StoredPack[] {
-  try {
-    const data = localStorage.getItem(STORAGE_KEY_RECENT)
-    if (!data) return []
+export function isStaleSaveError(e: unknown): boolean {
+  return e instanceof Error && e.name === STALE_SAVE_ERROR
+}
 
-    return JSON.parse(data) as StoredPack[]
-  } catch (e) {
-    console.error('Failed to load recent packs:', e)
-    return []
+export function describeStorageError(e: unknown, estimate: StorageEstimate | null): string {
+  if (isStaleSaveError(e)) return `Not saved: ${(e as Error).message.toLowerCase()}`
+  if (e instanceof DOMException && e.name === 'QuotaExceededError') {
+    const used = estimate ? ` (${formatSize(estimate.usage)} of ${formatSize(estimate.quota)} used)` : ''
+    return `Browser storage is full${used}; changes are not being saved`
   }
+  return `Saving failed: ${e instanceof Error ? e.message : String(e)}`
 }
 
-export async function loadRecentPack(name: string): Promise<ResourcePack | null> {
+function buildMeta(packId: string, pack: ResourcePack, settings: PackSettings, revision: number): StoredPackMeta {
+  let size = 0
+  for (const data of pack.files.values()) size += data.byteLength
+  const icon = pack.files.get('pack.png')
+  return {
+    id: packId,
+    name: settings.name.trim() || pack.name,
+    settings,
+    updatedAt: Date.now(),
+    revision,
+    fileCount: pack.files.size,
+    size,
+    thumbnail: icon && icon.byteLength <= MAX_THUMBNAIL_SIZE ? ownBuffer(icon) : null,
+  }
+}
+
+// Moves old localStorage saves into IndexedDB. Returns what could not be moved; those values are kept
+// under LEGACY_BACKUP_PREFIX keys, so the migration still runs only once.
+export async function migrateLegacyStorage(packId: string): Promise<string[]> {
+  const problems: string[] = []
+  let packData: string | null
+  let settingsData: string | null
+  let recentData: string | null
   try {
-    const recent = getRecentPacks()
-    const found = recent.find(r => r.name === name)
+    packData = localStorage.getItem(LEGACY_KEY_PACK)
+    settingsData = localStorage.getItem(LEGACY_KEY_SETTINGS)
+    recentData = localStorage.getItem(LEGACY_KEY_RECENT)
+  } catch {
+    return problems
+  }
+  if (!packData && !recentData) return problems
 
-    if (!found) return null
+  const fail = (what: string, e: unknown, backups: [string, string | null][]) => {
+    const kept = backups.filter(([key, value]) => value !== null && backUpLegacyValue(key, value))
+    const where = kept.length > 0 ? `kept as ${kept.map(([key]) => LEGACY_BACKUP_PREFIX + key).join(', ')}` : 'discarded'
+    problems.push(`Could not move ${what} from old browser storage (${e instanceof Error ? e.message : String(e)}); ${where}`)
+  }
 
-    const zipBytes = base64ToBytes(found.zipBase64)
-    const blob = new Blob([zipBytes as any], { type: 'application/zip' })
-    const file = new File([blob], `${found.name}.zip`)
+  if (packData) {
+    try {
+      const legacy = JSON.parse(packData) as { name: string; zipBase64: string }
+      const pack = await importLegacyZip(legacy.name, legacy.zipBase64)
+      // Settings were saved separately; without (readable) ones, take them from pack.mcmeta.
+      let settings = settingsFromPack(legacy.name, pack)
+      try {
+        if (settingsData) settings = JSON.parse(settingsData) as PackSettings
+      } catch {
+        // Keep the derived settings.
+      }
+      await savePack(packId, pack, settings, null)
+    } catch (e) {
+      fail('the saved pack', e, [
+        [LEGACY_KEY_PACK, packData],
+        [LEGACY_KEY_SETTINGS, settingsData],
+      ])
+    }
+  }
 
-    return await importZip(file)
-  } catch (e) {
-    console.error('Failed to load recent pack:', e)
-    return null
+  if (recentData) {
+    let recent: Array<{ name: string; zipBase64: string; timestamp: number }> = []
+    try {
+      recent = JSON.parse(recentData)
+      if (!Array.isArray(recent)) throw new Error('not a list')
+    } catch (e) {
+      fail('the recent packs list', e, [[LEGACY_KEY_RECENT, recentData]])
+      recent = []
+    }
+    const failed: typeof recent = []
+    let firstError: unknown = null
+    for (const entry of recent) {
+      try {
+        const pack = await importLegacyZip(entry.name, entry.zipBase64)
+        await savePack(createPackId(), pack, settingsFromPack(entry.name, pack), null)
+      } catch (e) {
+        firstError ??= e
+        failed.push(entry)
+      }
+    }
+    if (failed.length > 0) {
+      const names = failed.map((entry) => JSON.stringify(entry?.name)).join(', ')
+      fail(`recent pack${failed.length === 1 ? '' : 's'} ${names}`, firstError, [[LEGACY_KEY_RECENT, JSON.stringify(failed)]])
+    }
   }
+
+  // Dropped once everything above made it into IndexedDB or into a backup key, so this runs only once.
+  localStorage.removeItem(LEGACY_KEY_PACK)
+  localStorage.removeItem(LEGACY_KEY_SETTINGS)
+  localStorage.removeItem(LEGACY_KEY_RECENT)
+  return problems
 }
 
-function bytesToBase64(bytes: Uint8Array): string {
-  let binary = ''
-  const len = bytes.byteLength
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i])
+function settingsFromPack(name: string, pack: ResourcePack): PackSettings {
+  const meta = readPackMetadata(pack)
+  const settings: PackSettings = { ...defaultPackSettings(), name }
+  if (meta) {
+    settings.packFormat = meta.packFormat
+    settings.versionId = findByPackFormat(meta.packFormat)?.id ?? 'custom'
+    settings.description = meta.description
   }
-  return btoa(binary)
+  return settings
+}
+
+// False when it couldn't be stored (most likely the quota).
+function backUpLegacyValue(key: string, value: string): boolean {
+  try {
+    localStorage.setItem(LEGACY_BACKUP_PREFIX + key, value)
+    return true
+  } catch {
+    return false
+  }
+}
+
+async function importLegacyZip(name: string, zipBase64: string): Promise<ResourcePack> {
+  const pack = await importZip(new File([base64ToBytes(zipBase64)], `${name}.zip`), { detectRoot: false })
+  return { ...pack, name }
+}
+
+// Structured clone stores a view's whole underlying buffer; don't persist neighbours of a subarray.
+function ownBuffer(data: Uint8Array): Uint8Array {
+  return data.byteOffset === 0 && data.byteLength === data.buffer.byteLength ? data : data.slice()
 }
 
-function base64ToBytes(base64: string): Uint8Array {
+function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
   const binary = atob(base64)
   const len = binary.length
   const bytes = new Uint8Array(len)
@@ -0,0 +1,231 @@
+import { createEmptyPack, type PackSettings } from './metadata'
+import { sanitizeEntryPath } from './sanitize'
+import { addSound } from './sounds'
+import { addUnicodeGlyph, applyCustomModelData, replaceVanillaTexture } from './tools'
+import type { ResourcePack } from './types'
+import { cloneVfs, vfsSet } from './vfs'
+import { findByPackFormat, findOptionForVersion } from './versioning'
+
+// A pack project is a JSON manifest describing a pack as a list of edits (CMD entries, glyphs,
+// sounds, vanilla replacements) over source files kept next to it. Building replays those edits
+// in manifest order through the same functions the tools use, so the same manifest and sources
+// always give the same pack.
+
+export type PackProject = {
+  name: string
+  description?: string
+  // Either a release version or option id (see RESOURCE_PACK_FORMATS) or an explicit pack_format.
+  version?: string
+  packFormat?: number
+  cmd?: ProjectCmdEntry[]
+  glyphs?: ProjectGlyphEntry[]
+  sounds?: ProjectSoundEntry[]
+  vanilla?: ProjectVanillaEntry[]
+  // Copied verbatim: pack path -> source path. Applied last, so it can override generated files.
+  files?: Record<string, string>
+}
+
+export type ProjectCmdEntry = {
+  item: string
+  id: number
+  texture: string
+  // Replaces the generated item model (e.g. a 3D model exported from Blockbench).
+  model?: string
+  namespace?: string
+}
+
+export type ProjectGlyphEntry = {
+  texture: string
+  font?: string
+  ascent?: number
+  height?: number
+}
+
+export type ProjectSoundEntry = {
+  id: string
+  file: string
+  namespace?: string
+  path?: string
+  subtitle?: string
+  replace?: boolean
+}
+
+export type ProjectVanillaEntry = {
+  target: string
+  texture: string
+}
+
+// Source paths in the manifest are relative to the manifest itself; the caller resolves them.
+export type ProjectSourceReader = (path: string) => Promise<Uint8Array>
+
+export type ProjectBuildResult = {
+  pack: ResourcePack
+  glyphs: Array<{ texture: string; char: string; codepointHex: string }>
+}
+
+export const PROJECT_FILE_NAME = 'mrwm.project.json'
+
+export function parsePackProject(text: string): PackProject {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch (e) {
+    throw new Error(`Project file is not valid JSON: ${e instanceof Error ? e.message : String(e)}`)
+  }
+
+  const errors: string[] = []
+  if (!isRecord(raw)) throw new Error('Project file must be a JSON object')
+  if (typeof raw.name !== 'string' || !raw.name.trim()) errors.push('name: expected a non-empty string')
+  if (raw.description !== undefined && typeof raw.description !== 'string') errors.push('description: expected a string')
+  if (raw.version !== undefined && (typeof raw.version !== 'string' || !findOptionForVersion(raw.version))) {
+    errors.push(`version: unknown version ${JSON.stringify(raw.version)}`)
+  }
+  if (raw.packFormat !== undefined && !isPositiveInteger(raw.packFormat)) errors.push('packFormat: expected a positive integer')
+  if (raw.version === undefined && raw.packFormat === undefined) errors.push('version or packFormat is required')
+
+  checkEntries(raw.cmd, 'cmd', errors, (e, at) => {
+    requireString(e, 'item', at, errors)
+    if (!isPositiveInteger(e.id)) errors.push(`${at}.id: expected a positive integer`)
+    requireString(e, 'texture', at, errors)
+    optionalString(e, 'model', at, errors)
+    optionalString(e, 'namespace', at, errors)
+  })
+  checkEntries(raw.glyphs, 'glyphs', errors, (e, at) => {
+    requireString(e, 'texture', at, errors)
+    optionalString(e, 'font', at, errors)
+    if (e.ascent !== undefined && typeof e.ascent !== 'number') errors.push(`${at}.ascent: expected a number`)
+    if (e.height !== undefined && typeof e.height !== 'number') errors.push(`${at}.height: expected a number`)
+  })
+  checkEntries(raw.sounds, 'sounds', errors, (e, at) => {
+    requireString(e, 'id', at, errors)
+    requireString(e, 'file', at, errors)
+    optionalString(e, 'namespace', at, errors)
+    optionalString(e, 'path', at, errors)
+    optionalString(e, 'subtitle', at, errors)
+    if (e.replace !== undefined && typeof e.replace !== 'boolean') errors.push(`${at}.replace: expected a boolean`)
+  })
+  checkEntries(raw.vanilla, 'vanilla', errors, (e, at) => {
+    requireString(e, 'target', at, errors)
+    requireString(e, 'texture', at, errors)
+  })
+  if (raw.files !== undefined) {
+    if (!isRecord(raw.files)) errors.push('files: expected an object of pack path -> source path')
+    else {
+      for (const [target, source] of Object.entries(raw.files)) {
+        if (typeof source !== 'string') errors.push(`files.${target}: expected a source path`)
+        // Same rules as imported entries, so a manifest can't write outside the pack.
+        const sanitized = sanitizeEntryPath(target)
+        if (!sanitized.ok) errors.push(`files.${target}: ${sanitized.reason}`)
+        else if (sanitized.path.endsWith('/')) errors.push(`files.${target}: expected a file path`)
+      }
+    }
+  }
+
+  if (errors.length > 0) throw new Error(`Invalid project file:\n- ${errors.join('\n- ')}`)
+  return raw as PackProject
+}
+
+export function projectSettings(project: PackProject): PackSettings {
+  const known = project.version ? findOptionForVersion(project.version) : null
+  const packFormat = project.packFormat ?? known?.packFormat
+  if (!packFormat) throw new Error('Project needs a version or packFormat')
+  return {
+    name: project.name,
+    versionId: known?.id ?? findByPackFormat(packFormat)?.id ?? 'custom',
+    packFormat,
+    description: project.description ?? '',
+  }
+}
+
+export async function buildPackProject(project: PackProject, readSource: ProjectSourceReader): Promise<ProjectBuildResult> {
+  // pack.mcmeta goes in first: applyCustomModelData picks the item model layout from pack_format.
+  let pack = createEmptyPack(projectSettings(project))
+  const glyphs: ProjectBuildResult['glyphs'] = []
+
+  for (const entry of project.cmd ?? []) {
+    pack = applyCustomModelData(pack, {
+      itemId: entry.item,
+      customModelData: entry.id,
+      texturePng: await readSource(entry.texture),
+      namespace: entry.namespace,
+    })
+    if (entry.model) {
+      const ns = (entry.namespace?.trim() || 'mrwm').toLowerCase()
+      const itemName = entry.item.trim().toLowerCase().replace(/^.*:/, '')
+      const files = cloneVfs(pack.files)
+      vfsSet(files, `assets/${ns}/models/item/${itemName}_cmd_${entry.id}.json`, await readSource(entry.model))
+      pack = { ...pack, files }
+    }
+  }
+
+  for (const entry of project.glyphs ?? []) {
+    const result = addUnicodeGlyph(pack, {
+      png: await readSource(entry.texture),
+      fontKey: entry.font,
+      ascent: entry.ascent,
+      height: entry.height,
+    })
+    pack = result.pack
+    glyphs.push({ texture: entry.texture, char: result.char, codepointHex: result.codepointHex })
+  }
+
+  for (const entry of project.sounds ?? []) {
+    pack = addSound(pack, {
+      soundId: entry.id,
+      soundFile: await readSource(entry.file),
+      namespace: entry.namespace,
+      soundPath: entry.path,
+      subtitle: entry.subtitle,
+      replace: entry.replace,
+    })
+  }
+
+  for (const entry of project.vanilla ?? []) {
+    pack = replaceVanillaTexture(pack, { target: entry.target, replacementPng: await readSource(entry.texture) })
+  }
+
+  if (project.files) {
+    const files = cloneVfs(pack.files)
+    for (const [target, source] of Object.entries(project.files)) {
+      const sanitized = sanitizeEntryPath(target)
+      if (!sanitized.ok) throw new Error(`files.${target}: ${sanitized.reason}`)
+      vfsSet(files, sanitized.path, await readSource(source))
+    }
+    pack = { ...pack, files }
+  }
+
+  return { pack, glyphs }
+}
+
+function checkEntries(
+  value: unknown,
+  key: string,
+  errors: string[],
+  check: (entry: Record<string, unknown>, at: string) => void,
+): void {
+  if (value === undefined) return
+  if (!Array.isArray(value)) {
+    errors.push(`${key}: expected an array`)
+    return
+  }
+  value.forEach((entry, i) => {
+    if (isRecord(entry)) check(entry, `${key}[${i}]`)
+    else errors.push(`${key}[${i}]: expected an object`)
+  })
+}
+
+function requireString(entry: Record<string, unknown>, field: string, at: string, errors: string[]): void {
+  if (typeof entry[field] !== 'string' || !entry[field]) errors.push(`${at}.${field}: expected a non-empty string`)
+}
+
+function optionalString(entry: Record<string, unknown>, field: string, at: string, errors: string[]): void {
+  if (entry[field] !== undefined && typeof entry[field] !== 'string') errors.push(`${at}.${field}: expected a string`)
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0
+}
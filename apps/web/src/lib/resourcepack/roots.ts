@@ -0,0 +1,41 @@
+import type { ResourcePack } from './types'
+import { createVfs } from './vfs'
+
+// A pack root is a directory holding pack.mcmeta: '' for a well-formed ZIP, 'MyPack/' when the
+// archive was made by zipping the folder instead of its contents.
+
+// Shallowest roots only: a pack.mcmeta nested inside another root belongs to that pack.
+export function findPackRoots(paths: Iterable<string>): string[] {
+  const candidates: string[] = []
+  for (const path of paths) {
+    if (path === 'pack.mcmeta') return ['']
+    if (path.endsWith('/pack.mcmeta')) candidates.push(path.slice(0, -'pack.mcmeta'.length))
+  }
+
+  candidates.sort((a, b) => a.length - b.length || (a < b ? -1 : a > b ? 1 : 0))
+  const roots: string[] = []
+  for (const candidate of candidates) {
+    if (!roots.some((root) => candidate.startsWith(root))) roots.push(candidate)
+  }
+  return roots.sort()
+}
+
+export function packRootName(root: string): string {
+  const parts = root.split('/').filter(Boolean)
+  return parts[parts.length - 1] ?? ''
+}
+
+// Files outside the root are dropped; the root prefix is stripped from the rest.
+export function rerootPack(pack: ResourcePack, root: string, name: string = pack.name): ResourcePack {
+  if (!root) return pack
+  const files = createVfs()
+  for (const [path, data] of pack.files) {
+    if (path.startsWith(root)) files.set(path.slice(root.length), data)
+  }
+  return { name, files }
+}
+
+// One pack per root, named after its folder, for archives that bundle several packs.
+export function splitPackRoots(pack: ResourcePack, roots: string[]): ResourcePack[] {
+  return roots.map((root) => rerootPack(pack, root, packRootName(root) || pack.name))
+}
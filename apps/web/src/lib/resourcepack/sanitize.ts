@@ -0,0 +1,110 @@
+import { normalizePath } from './vfs'
+
+// Shared by every importer (ZIP, folder, CLI) so a pack is filtered the same way wherever it comes from.
+
+export type ImportLimits = {
+  maxEntries: number
+  maxTotalSize: number
+  // Inflated/compressed ratio above which an entry is treated as a zip bomb.
+  maxCompressionRatio: number
+}
+
+export const DEFAULT_IMPORT_LIMITS: ImportLimits = {
+  maxEntries: 100_000,
+  maxTotalSize: 2 * 1024 * 1024 * 1024,
+  maxCompressionRatio: 200,
+}
+
+// Small, highly repetitive files (blank JSON, padding) legitimately exceed the ratio; only police big ones.
+export const COMPRESSION_RATIO_MIN_SIZE = 1024 * 1024
+
+export type ImportReport = {
+  entries: number
+  imported: number
+  totalSize: number
+  skipped: Array<{ path: string; reason: string }>
+  renamed: Array<{ from: string; to: string }>
+  // Directories containing pack.mcmeta ('' is the archive root), and the one the import was re-rooted to.
+  packRoots: string[]
+  root: string
+}
+
+export type SanitizedPath =
+  | { ok: true; path: string; renamed: boolean }
+  | { ok: false; reason: string }
+
+export function createImportReport(): ImportReport {
+  return { entries: 0, imported: 0, totalSize: 0, skipped: [], renamed: [], packRoots: [], root: '' }
+}
+
+export function resolveImportLimits(limits?: Partial<ImportLimits>): ImportLimits {
+  return { ...DEFAULT_IMPORT_LIMITS, ...limits }
+}
+
+export function sanitizeEntryPath(rawPath: string): SanitizedPath {
+  if (Array.from(rawPath).some((ch) => ch.charCodeAt(0) < 0x20)) {
+    return { ok: false, reason: 'control characters in path' }
+  }
+
+  // Drive letters and UNC/absolute prefixes are stripped rather than rejected: the rest is usually fine.
+  const normalized = normalizePath(rawPath.replace(/^[a-zA-Z]:/, '').replaceAll('\\', '/'))
+  const segments: string[] = []
+  for (const segment of normalized.split('/')) {
+    if (segment === '' || segment === '.') continue
+    if (segment === '..') return { ok: false, reason: 'path traversal (..)' }
+    segments.push(segment)
+  }
+
+  const path = segments.join('/')
+  if (!path) return { ok: false, reason: 'empty path' }
+
+  // Directory entries keep their trailing slash so callers can recognise and drop them.
+  const withSlash = rawPath.endsWith('/') || rawPath.endsWith('\\') ? `${path}/` : path
+  return { ok: true, path: withSlash, renamed: withSlash !== rawPath }
+}
+
+export function isJunkEntry(path: string): boolean {
+  const parts = path.split('/')
+  const base = parts[parts.length - 1]
+  return (
+    parts.includes('__MACOSX') ||
+    parts.includes('.Spotlight-V100') ||
+    parts.includes('.Trashes') ||
+    base === '.DS_Store' ||
+    base === 'Thumbs.db' ||
+    base === 'desktop.ini' ||
+    base.startsWith('._')
+  )
+}
+
+// Runs the per-entry rules every importer shares: unsafe paths, directories, OS junk, the
+// caller's filter and duplicates. Returns the cleaned path, or null after recording why it was skipped.
+export function admitImportEntry(
+  report: ImportReport,
+  rawPath: string,
+  isDuplicate: (path: string) => boolean,
+  filter?: (path: string) => boolean,
+): string | null {
+  const sanitized = sanitizeEntryPath(rawPath)
+  if (!sanitized.ok) {
+    report.skipped.push({ path: rawPath, reason: sanitized.reason })
+    return null
+  }
+
+  const path = sanitized.path
+  if (path.endsWith('/')) return null
+  if (isJunkEntry(path)) {
+    report.skipped.push({ path, reason: 'OS junk file' })
+    return null
+  }
+  if (filter && !filter(path)) {
+    report.skipped.push({ path, reason: 'filtered out' })
+    return null
+  }
+  if (isDuplicate(path)) {
+    report.skipped.push({ path: rawPath, reason: `duplicate of ${path}` })
+    return null
+  }
+  if (sanitized.renamed) report.renamed.push({ from: rawPath, to: path })
+  return path
+}
@@ -0,0 +1,167 @@
+import { BLOBS_STORE, SNAPSHOTS_STORE, openPackDb, requestToPromise, transactionDone } from './idb'
+import type { PackSettings } from './metadata'
+import type { ResourcePack } from './types'
+import { createVfs } from './vfs'
+
+// Named restore points of a project. File contents are stored once per distinct content (keyed
+// by SHA-256) and shared between snapshots, so snapshotting a large pack again after a small edit
+// only stores the files that changed.
+
+export type SnapshotMeta = {
+  id: string
+  packId: string
+  name: string
+  createdAt: number
+  settings: PackSettings
+  fileCount: number
+  size: number
+}
+
+export type Snapshot = {
+  meta: SnapshotMeta
+  pack: ResourcePack
+  settings: PackSettings
+}
+
+type SnapshotRecord = SnapshotMeta & {
+  files: Record<string, string>
+}
+
+type BlobRecord = {
+  hash: string
+  data: Uint8Array
+  refs: number
+}
+
+// VFS buffers are shared between pack states (see cloneVfs), so remembering each buffer's hash
+// means a repeat snapshot only hashes what was written since.
+const hashCache = new WeakMap<Uint8Array, string>()
+
+export async function createSnapshot(
+  packId: string,
+  name: string,
+  pack: ResourcePack,
+  settings: PackSettings,
+): Promise<SnapshotMeta> {
+  // Hash first: a transaction can't stay open across crypto.subtle calls.
+  const files: Record<string, string> = {}
+  const contents = new Map<string, Uint8Array>()
+  let size = 0
+  for (const [path, data] of pack.files) {
+    const hash = await contentHash(data)
+    files[path] = hash
+    contents.set(hash, data)
+    size += data.byteLength
+  }
+
+  const meta: SnapshotMeta = {
+    id: crypto.randomUUID(),
+    packId,
+    name,
+    createdAt: Date.now(),
+    settings,
+    fileCount: pack.files.size,
+    size,
+  }
+
+  const db = await openPackDb()
+  const tx = db.transaction([SNAPSHOTS_STORE, BLOBS_STORE], 'readwrite')
+  const done = transactionDone(tx)
+  const blobs = tx.objectStore(BLOBS_STORE)
+  for (const [hash, data] of contents) {
+    const existing = await requestToPromise(blobs.get(hash) as IDBRequest<BlobRecord | undefined>)
+    blobs.put(existing ? { ...existing, refs: existing.refs + 1 } : ({ hash, data: data.slice(), refs: 1 } satisfies BlobRecord))
+  }
+  tx.objectStore(SNAPSHOTS_STORE).put({ ...meta, files } satisfies SnapshotRecord)
+  await done
+  return meta
+}
+
+// Newest first.
+export async function listSnapshots(packId: string): Promise<SnapshotMeta[]> {
+  const db = await openPackDb()
+  const tx = db.transaction(SNAPSHOTS_STORE, 'readonly')
+  const records = await requestToPromise(
+    tx.objectStore(SNAPSHOTS_STORE).index('packId').getAll(packId) as IDBRequest<SnapshotRecord[]>,
+  )
+  return records.map(toMeta).sort((a, b) => b.createdAt - a.createdAt)
+}
+
+export async function loadSnapshot(id: string): Promise<Snapshot> {
+  const db = await openPackDb()
+  const tx = db.transaction([SNAPSHOTS_STORE, BLOBS_STORE], 'readonly')
+  const record = await requestToPromise(tx.objectStore(SNAPSHOTS_STORE).get(id) as IDBRequest<SnapshotRecord | undefined>)
+  if (!record) throw new Error('Snapshot not found')
+
+  const blobStore = tx.objectStore(BLOBS_STORE)
+  const hashes = [...new Set(Object.values(record.files))]
+  const blobs = await Promise.all(hashes.map((hash) => requestToPromise(blobStore.get(hash) as IDBRequest<BlobRecord | undefined>)))
+  const byHash = new Map<string, Uint8Array>()
+  for (const blob of blobs) {
+    if (blob) byHash.set(blob.hash, blob.data)
+  }
+
+  const files = createVfs()
+  for (const [path, hash] of Object.entries(record.files)) {
+    const data = byHash.get(hash)
+    if (!data) throw new Error(`Snapshot ${record.name} is missing the contents of ${path}`)
+    files.set(path, data)
+  }
+
+  const meta = toMeta(record)
+  return { meta, pack: { name: meta.settings.name || meta.name, files }, settings: meta.settings }
+}
+
+export async function deleteSnapshot(id: string): Promise<void> {
+  const db = await openPackDb()
+  const tx = db.transaction([SNAPSHOTS_STORE, BLOBS_STORE], 'readwrite')
+  const done = transactionDone(tx)
+  const record = await requestToPromise(tx.objectStore(SNAPSHOTS_STORE).get(id) as IDBRequest<SnapshotRecord | undefined>)
+  if (record) await dropSnapshot(tx, record)
+  await done
+}
+
+export async function deletePackSnapshots(packId: string): Promise<void> {
+  const db = await openPackDb()
+  const tx = db.transaction([SNAPSHOTS_STORE, BLOBS_STORE], 'readwrite')
+  const done = transactionDone(tx)
+  const records = await requestToPromise(
+    tx.objectStore(SNAPSHOTS_STORE).index('packId').getAll(packId) as IDBRequest<SnapshotRecord[]>,
+  )
+  for (const record of records) await dropSnapshot(tx, record)
+  await done
+}
+
+// Releases the snapshot's blob references; contents no other snapshot uses are deleted with it.
+async function dropSnapshot(tx: IDBTransaction, record: SnapshotRecord): Promise<void> {
+  const blobs = tx.objectStore(BLOBS_STORE)
+  for (const hash of new Set(Object.values(record.files))) {
+    const blob = await requestToPromise(blobs.get(hash) as IDBRequest<BlobRecord | undefined>)
+    if (!blob) continue
+    if (blob.refs <= 1) blobs.delete(hash)
+    else blobs.put({ ...blob, refs: blob.refs - 1 })
+  }
+  tx.objectStore(SNAPSHOTS_STORE).delete(record.id)
+}
+
+async function contentHash(data: Uint8Array): Promise<string> {
+  const cached = hashCache.get(data)
+  if (cached) return cached
+
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data as Uint8Array<ArrayBuffer>))
+  const hash = Array.from(digest, (b) => b.toString(16).padStart(2, '0')).join('')
+  hashCache.set(data, hash)
+  return hash
+}
+
+function toMeta(record: SnapshotRecord): SnapshotMeta {
+  return {
+    id: record.id,
+    packId: record.packId,
+    name: record.name,
+    createdAt: record.createdAt,
+    settings: record.settings,
+    fileCount: record.fileCount,
+    size: record.size,
+  }
+}
@@ -0,0 +1,210 @@
+import { walkDirectory, type FolderEntry } from './folder'
+import { isJunkEntry } from './sanitize'
+import type { ProgressCallback, Vfs } from './types'
+import { bytesEqual, diffVfs } from './vfs'
+
+// Live sync of the current pack into a folder on disk (File System Access API). After the first
+// full mirror, each push writes only what diffVfs reports as changed since the last push.
+// Conflicts are caught by comparing size + lastModified with what we saw right after our own
+// writes; anything else touching those files means it changed outside the app.
+
+export type FileStamp = {
+  size: number
+  lastModified: number
+}
+
+export type FolderSync = {
+  dir: FileSystemDirectoryHandle
+  // Files as last written to the folder; the next push writes the difference to this.
+  baseline: Vfs
+  stamps: Map<string, FileStamp>
+}
+
+export type SyncPlan = {
+  write: string[]
+  delete: string[]
+}
+
+export type SyncConflict = {
+  path: string
+  reason: 'modified' | 'deleted' | 'added'
+}
+
+export type SyncPushResult = {
+  sync: FolderSync
+  written: number
+  deleted: number
+  // Non-empty only when the push was refused; nothing was written in that case.
+  conflicts: SyncConflict[]
+}
+
+// What the first mirror would do to the folder. Reads every file that might match,
+// so only files whose bytes actually differ get rewritten.
+export async function planInitialSync(dir: FileSystemDirectoryHandle, files: Vfs, onProgress?: ProgressCallback): Promise<SyncPlan> {
+  const onDisk = await readFolderFiles(dir)
+  const plan: SyncPlan = { write: [], delete: [] }
+
+  let done = 0
+  for (const [path, data] of files) {
+    onProgress?.(++done, files.size)
+    const file = await onDisk.get(path)?.getFile()
+    if (!file || file.size !== data.byteLength || !bytesEqual(new Uint8Array(await file.arrayBuffer()), data)) {
+      plan.write.push(path)
+    }
+  }
+  for (const path of onDisk.keys()) {
+    if (!files.has(path)) plan.delete.push(path)
+  }
+
+  plan.write.sort()
+  plan.delete.sort()
+  return plan
+}
+
+export async function startFolderSync(
+  dir: FileSystemDirectoryHandle,
+  files: Vfs,
+  plan: SyncPlan,
+  onProgress?: ProgressCallback,
+): Promise<FolderSync> {
+  await applySyncPlan(dir, files, plan, new Map(), onProgress)
+
+  // Stamp everything, not just what we wrote: unchanged files count as ours from now on too.
+  const stamps = new Map<string, FileStamp>()
+  for (const [path, entry] of await readFolderFiles(dir)) {
+    stamps.set(path, toStamp(await entry.getFile()))
+  }
+  return { dir, baseline: files, stamps }
+}
+
+export async function pushFolderSync(sync: FolderSync, files: Vfs, options: { force?: boolean } = {}): Promise<SyncPushResult> {
+  const changes = diffVfs(sync.baseline, files)
+  const plan: SyncPlan = { write: [...changes.added, ...changes.modified], delete: changes.deleted }
+  if (plan.write.length === 0 && plan.delete.length === 0) {
+    return { sync: { ...sync, baseline: files }, written: 0, deleted: 0, conflicts: [] }
+  }
+
+  if (!options.force) {
+    const conflicts = await findSyncConflicts(sync, [...plan.write, ...plan.delete])
+    if (conflicts.length > 0) return { sync, written: 0, deleted: 0, conflicts }
+  }
+
+  const stamps = new Map(sync.stamps)
+  await applySyncPlan(sync.dir, files, plan, stamps)
+  return { sync: { ...sync, baseline: files, stamps }, written: plan.write.length, deleted: plan.delete.length, conflicts: [] }
+}
+
+// "Keep the app's version": conflicting paths are rewritten from the pack (or removed when the pack
+// doesn't have them), then the pending diff is pushed without checking again.
+export async function resolveSyncConflicts(sync: FolderSync, files: Vfs, conflicts: SyncConflict[]): Promise<SyncPushResult> {
+  const paths = conflicts.map((c) => c.path)
+  const plan: SyncPlan = { write: paths.filter((p) => files.has(p)), delete: paths.filter((p) => !files.has(p)) }
+  const stamps = new Map(sync.stamps)
+  await applySyncPlan(sync.dir, files, plan, stamps)
+  return pushFolderSync({ ...sync, stamps }, files, { force: true })
+}
+
+// Files changed on disk since our last write. With `paths`, only those are checked
+// (cheap, used before every push); without, the whole folder is scanned.
+export async function findSyncConflicts(sync: FolderSync, paths?: string[]): Promise<SyncConflict[]> {
+  const conflicts: SyncConflict[] = []
+
+  if (paths) {
+    for (const path of paths) {
+      const conflict = compareStamp(path, sync.stamps.get(path), await statFile(sync.dir, path))
+      if (conflict) conflicts.push(conflict)
+    }
+    return conflicts
+  }
+
+  const onDisk = await readFolderFiles(sync.dir)
+  for (const [path, entry] of onDisk) {
+    const conflict = compareStamp(path, sync.stamps.get(path), toStamp(await entry.getFile()))
+    if (conflict) conflicts.push(conflict)
+  }
+  for (const path of sync.stamps.keys()) {
+    if (!onDisk.has(path)) conflicts.push({ path, reason: 'deleted' })
+  }
+  return conflicts.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0))
+}
+
+async function applySyncPlan(
+  dir: FileSystemDirectoryHandle,
+  files: Vfs,
+  plan: SyncPlan,
+  stamps: Map<string, FileStamp>,
+  onProgress?: ProgressCallback,
+): Promise<void> {
+  const total = plan.write.length + plan.delete.length
+  let done = 0
+
+  for (const path of plan.write) {
+    const data = files.get(path)
+    if (!data) continue
+    const handle = await resolveFileHandle(dir, path, true)
+    if (!handle) throw new Error(`Cannot create ${path} in ${dir.name}`)
+    const writable = await handle.createWritable()
+    // VFS buffers are always plain ArrayBuffers; the DOM typings just can't tell.
+    await writable.write(data as Uint8Array<ArrayBuffer>)
+    await writable.close()
+    stamps.set(path, toStamp(await handle.getFile()))
+    onProgress?.(++done, total)
+  }
+
+  for (const path of plan.delete) {
+    await removeFile(dir, path)
+    stamps.delete(path)
+    onProgress?.(++done, total)
+  }
+}
+
+function compareStamp(path: string, known: FileStamp | undefined, current: FileStamp | null): SyncConflict | null {
+  if (!known) return current ? { path, reason: 'added' } : null
+  if (!current) return { path, reason: 'deleted' }
+  if (known.size !== current.size || known.lastModified !== current.lastModified) return { path, reason: 'modified' }
+  return null
+}
+
+async function readFolderFiles(dir: FileSystemDirectoryHandle) {
+  const entries: FolderEntry[] = []
+  await walkDirectory(dir, '', entries)
+  return new Map(entries.filter((e) => !isJunkEntry(e.path)).map((e) => [e.path, e]))
+}
+
+async function statFile(dir: FileSystemDirectoryHandle, path: string): Promise<FileStamp | null> {
+  const handle = await resolveFileHandle(dir, path, false)
+  return handle ? toStamp(await handle.getFile()) : null
+}
+
+async function resolveFileHandle(
+  dir: FileSystemDirectoryHandle,
+  path: string,
+  create: boolean,
+): Promise<FileSystemFileHandle | null> {
+  const segments = path.split('/')
+  const name = segments.pop()!
+  try {
+    let current = dir
+    for (const segment of segments) current = await current.getDirectoryHandle(segment, { create })
+    return await current.getFileHandle(name, { create })
+  } catch (e) {
+    if (e instanceof DOMException && (e.name === 'NotFoundError' || e.name === 'TypeMismatchError')) return null
+    throw e
+  }
+}
+
+async function removeFile(dir: FileSystemDirectoryHandle, path: string): Promise<void> {
+  const segments = path.split('/')
+  const name = segments.pop()!
+  try {
+    let current = dir
+    for (const segment of segments) current = await current.getDirectoryHandle(segment)
+    await current.removeEntry(name)
+  } catch (e) {
+    if (!(e instanceof DOMException && e.name === 'NotFoundError')) throw e
+  }
+}
+
+function toStamp(file: File): FileStamp {
+  return { size: file.size, lastModified: file.lastModified }
+}
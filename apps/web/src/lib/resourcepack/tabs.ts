@@ -0,0 +1,78 @@
+// Coordinates tabs that have the app open, so only one of them edits a given project at a time.
+// The editing tab answers `query` messages with `editing`; other tabs open the project read-only
+// and follow its `saved` messages until it `released` the project (or they ask it to via `takeover`).
+
+export type TabMessage =
+  | { type: 'query'; packId: string; from: string }
+  | { type: 'editing'; packId: string; from: string }
+  | { type: 'takeover'; packId: string; from: string }
+  // `to` is set when answering a takeover; without it, any read-only tab may claim the project.
+  | { type: 'released'; packId: string; from: string; to?: string }
+  | { type: 'saved'; packId: string; from: string; revision: number }
+  | { type: 'deleted'; packId: string; from: string }
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never
+
+const CHANNEL_NAME = 'mrwm-tabs'
+
+// How long to wait for an editing tab to answer before assuming there is none.
+const QUERY_TIMEOUT_MS = 250
+// An editing tab flushes its pending save before releasing, which can take a while for big packs.
+const TAKEOVER_TIMEOUT_MS = 3000
+
+export const TAB_ID = crypto.randomUUID()
+
+let channel: BroadcastChannel | null | undefined
+
+function getChannel(): BroadcastChannel | null {
+  if (channel === undefined) channel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(CHANNEL_NAME)
+  return channel
+}
+
+export function postTabMessage(message: DistributiveOmit<TabMessage, 'from'>): void {
+  getChannel()?.postMessage({ ...message, from: TAB_ID })
+}
+
+// Messages from other tabs only; a BroadcastChannel never delivers a tab's own messages.
+export function onTabMessage(listener: (message: TabMessage) => void): () => void {
+  const current = getChannel()
+  if (!current) return () => {}
+  const handle = (e: MessageEvent<TabMessage>) => listener(e.data)
+  current.addEventListener('message', handle)
+  return () => current.removeEventListener('message', handle)
+}
+
+// Resolves with the id of the tab editing `packId`, or null if none answers in time.
+export function findEditingTab(packId: string): Promise<string | null> {
+  if (!getChannel()) return Promise.resolve(null)
+  const reply = waitForTabMessage((m) => m.type === 'editing' && m.packId === packId, QUERY_TIMEOUT_MS)
+  postTabMessage({ type: 'query', packId })
+  return reply.then((m) => m?.from ?? null)
+}
+
+// Asks the editing tab to save and let go of `packId`. Resolves once it has, or after a timeout
+// (an unresponsive tab, e.g. a frozen background one, must not lock the project forever).
+export async function requestTakeover(packId: string): Promise<void> {
+  if (!getChannel()) return
+  const released = waitForTabMessage(
+    (m) => m.type === 'released' && m.packId === packId && m.to === TAB_ID,
+    TAKEOVER_TIMEOUT_MS,
+  )
+  postTabMessage({ type: 'takeover', packId })
+  await released
+}
+
+function waitForTabMessage(match: (message: TabMessage) => boolean, timeoutMs: number): Promise<TabMessage | null> {
+  return new Promise((resolve) => {
+    const timeout = setTimeout(() => {
+      stop()
+      resolve(null)
+    }, timeoutMs)
+    const stop = onTabMessage((message) => {
+      if (!match(message)) return
+      clearTimeout(timeout)
+      stop()
+      resolve(message)
+    })
+  })
+}
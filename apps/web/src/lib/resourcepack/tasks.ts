@@ -0,0 +1,115 @@
+import PackWorker from './pack.worker?worker'
+import type { PackStats } from './analyzer'
+import type { CompressionReport } from './compression'
+import type { ProgressCallback, ResourcePack, Vfs } from './types'
+import type { ValidationIssue } from './validation'
+import { createVfs } from './vfs'
+import type { ExportZipSettings, ImportResult } from './zip'
+import type { ImportReport } from './sanitize'
+
+// Heavy pack operations run in a dedicated worker per call so the UI stays responsive.
+// Cancelling (via AbortSignal) terminates the worker outright; nothing is left half-applied
+// because results only reach the caller once the worker has finished.
+
+export type PackAnalysis = {
+  stats: PackStats
+  validation: ValidationIssue[]
+  unused: string[]
+  duplicates: Array<{ paths: string[]; size: number }>
+}
+
+export type ExportedZip = {
+  bytes: Uint8Array
+  report: CompressionReport
+}
+
+export type PackTaskOptions = {
+  onProgress?: ProgressCallback
+  signal?: AbortSignal
+}
+
+export type PackTaskRequest =
+  | { type: 'import'; file: File }
+  | { type: 'export'; files: Map<string, Uint8Array>; settings: ExportZipSettings }
+  | { type: 'analyze'; name: string; files: Map<string, Uint8Array> }
+
+export type PackTaskResponse =
+  | { type: 'progress'; done: number; total: number }
+  | { type: 'error'; message: string }
+  | { type: 'import'; name: string; files: Map<string, Uint8Array>; report: ImportReport }
+  | { type: 'export'; bytes: Uint8Array; report: CompressionReport }
+  | { type: 'analyze'; analysis: PackAnalysis }
+
+export async function importZipInWorker(file: File, options: PackTaskOptions = {}): Promise<ImportResult> {
+  const result = await runPackTask({ type: 'import', file }, options)
+  if (result.type !== 'import') throw new Error(`Unexpected worker response: ${result.type}`)
+  return { pack: { name: result.name, files: createVfs(result.files) }, report: result.report }
+}
+
+export async function exportZipInWorker(
+  files: Vfs,
+  settings: ExportZipSettings = {},
+  options: PackTaskOptions = {},
+): Promise<ExportedZip> {
+  const result = await runPackTask({ type: 'export', files: toPlainMap(files), settings }, options)
+  if (result.type !== 'export') throw new Error(`Unexpected worker response: ${result.type}`)
+  return { bytes: result.bytes, report: result.report }
+}
+
+export async function analyzePackInWorker(pack: ResourcePack, options: PackTaskOptions = {}): Promise<PackAnalysis> {
+  const result = await runPackTask({ type: 'analyze', name: pack.name, files: toPlainMap(pack.files) }, options)
+  if (result.type !== 'analyze') throw new Error(`Unexpected worker response: ${result.type}`)
+  return result.analysis
+}
+
+export function isAbortError(e: unknown): boolean {
+  return e instanceof DOMException && e.name === 'AbortError'
+}
+
+function runPackTask(request: PackTaskRequest, options: PackTaskOptions): Promise<PackTaskResponse> {
+  return new Promise((resolve, reject) => {
+    const { signal, onProgress } = options
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+
+    const worker = new PackWorker({ name: `mrwm-${request.type}` })
+
+    function finish() {
+      worker.terminate()
+      signal?.removeEventListener('abort', onAbort)
+    }
+
+    function onAbort() {
+      finish()
+      reject(signal?.reason)
+    }
+
+    signal?.addEventListener('abort', onAbort)
+
+    worker.onmessage = (e: MessageEvent<PackTaskResponse>) => {
+      const msg = e.data
+      if (msg.type === 'progress') {
+        onProgress?.(msg.done, msg.total)
+        return
+      }
+
+      finish()
+      if (msg.type === 'error') reject(new Error(msg.message))
+      else resolve(msg)
+    }
+
+    worker.onerror = (e) => {
+      finish()
+      reject(new Error(e.message || 'Pack worker failed'))
+    }
+
+    worker.postMessage(request)
+  })
+}
+
+// The VFS is a Map subclass whose entries structured cloning cannot see; hand the worker a plain copy.
+function toPlainMap(files: Vfs): Map<string, Uint8Array> {
+  return new Map(files)
+}
@@ -0,0 +1,337 @@
+// Text components as used by pack.mcmeta `description`: a string (which may carry legacy § formatting
+// codes), an object with `text`/`translate` and style keys, or an array whose first element is the
+// parent of the rest.
+
+export type TextComponent = string | TextComponentObject | TextComponent[]
+
+export type TextComponentObject = {
+  text?: string
+  translate?: string
+  fallback?: string
+  keybind?: string
+  color?: string
+  bold?: boolean
+  italic?: boolean
+  underlined?: boolean
+  strikethrough?: boolean
+  obfuscated?: boolean
+  extra?: TextComponent[]
+}
+
+export type TextStyle = {
+  // A color name ("gold") or "#RRGGBB"; null for the default color of wherever the text is drawn.
+  color: string | null
+  bold: boolean
+  italic: boolean
+  underlined: boolean
+  strikethrough: boolean
+  obfuscated: boolean
+}
+
+// A run of text with one resolved style.
+export type TextSpan = TextStyle & { text: string }
+
+export type LegacyColor = {
+  code: string
+  name: string
+  hex: string
+}
+
+export const LEGACY_COLORS: LegacyColor[] = [
+  { code: '0', name: 'black', hex: '#000000' },
+  { code: '1', name: 'dark_blue', hex: '#0000AA' },
+  { code: '2', name: 'dark_green', hex: '#00AA00' },
+  { code: '3', name: 'dark_aqua', hex: '#00AAAA' },
+  { code: '4', name: 'dark_red', hex: '#AA0000' },
+  { code: '5', name: 'dark_purple', hex: '#AA00AA' },
+  { code: '6', name: 'gold', hex: '#FFAA00' },
+  { code: '7', name: 'gray', hex: '#AAAAAA' },
+  { code: '8', name: 'dark_gray', hex: '#555555' },
+  { code: '9', name: 'blue', hex: '#5555FF' },
+  { code: 'a', name: 'green', hex: '#55FF55' },
+  { code: 'b', name: 'aqua', hex: '#55FFFF' },
+  { code: 'c', name: 'red', hex: '#FF5555' },
+  { code: 'd', name: 'light_purple', hex: '#FF55FF' },
+  { code: 'e', name: 'yellow', hex: '#FFFF55' },
+  { code: 'f', name: 'white', hex: '#FFFFFF' },
+]
+
+type FormatKey = Exclude<keyof TextStyle, 'color'>
+
+export const LEGACY_FORMATS: { code: string; key: FormatKey }[] = [
+  { code: 'k', key: 'obfuscated' },
+  { code: 'l', key: 'bold' },
+  { code: 'm', key: 'strikethrough' },
+  { code: 'n', key: 'underlined' },
+  { code: 'o', key: 'italic' },
+]
+
+const FORMAT_KEYS: FormatKey[] = ['bold', 'italic', 'underlined', 'strikethrough', 'obfuscated']
+
+export const PLAIN_STYLE: TextStyle = {
+  color: null,
+  bold: false,
+  italic: false,
+  underlined: false,
+  strikethrough: false,
+  obfuscated: false,
+}
+
+// The pack selection screen: a 32px icon, then the name and up to two description lines, 157px wide.
+export const PACK_LIST_TEXT_WIDTH = 157
+export const PACK_LIST_DESCRIPTION_LINES = 2
+export const PACK_LIST_DESCRIPTION_COLOR = '#808080'
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/
+const CONTENT_KEYS = ['text', 'translate', 'keybind', 'score', 'selector', 'nbt']
+
+export function isTextComponent(value: unknown): value is TextComponent {
+  if (typeof value === 'string') return true
+  if (Array.isArray(value)) return value.length > 0 && value.every(isTextComponent)
+  if (typeof value !== 'object' || value === null) return false
+  const object = value as Record<string, unknown>
+  if (!CONTENT_KEYS.some((key) => key in object)) return false
+  return object.extra === undefined || (Array.isArray(object.extra) && object.extra.every(isTextComponent))
+}
+
+// "#RRGGBB" for a color name or hex color; null for anything the game would reject.
+export function colorToHex(color: string): string | null {
+  if (HEX_COLOR.test(color)) return color.toUpperCase()
+  return LEGACY_COLORS.find((c) => c.name === color)?.hex ?? null
+}
+
+// The closest of the 16 legacy colors, for writing hex colors as § codes.
+export function nearestLegacyColor(color: string): LegacyColor | null {
+  const hex = colorToHex(color)
+  if (!hex) return null
+  const [r, g, b] = rgb(hex)
+  let best = LEGACY_COLORS[0]
+  let bestDistance = Infinity
+  for (const candidate of LEGACY_COLORS) {
+    const [cr, cg, cb] = rgb(candidate.hex)
+    const distance = (r - cr) ** 2 + (g - cg) ** 2 + (b - cb) ** 2
+    if (distance < bestDistance) {
+      best = candidate
+      bestDistance = distance
+    }
+  }
+  return best
+}
+
+// Splits a string at § codes. A color code also clears bold/italic/…, §r goes back to `base`.
+export function parseLegacyText(text: string, base: TextStyle = PLAIN_STYLE): TextSpan[] {
+  const spans: TextSpan[] = []
+  let style = base
+  let current = ''
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (ch !== '§' || i + 1 >= text.length) {
+      current += ch
+      continue
+    }
+
+    const code = text[i + 1].toLowerCase()
+    const color = LEGACY_COLORS.find((c) => c.code === code)
+    const format = LEGACY_FORMATS.find((f) => f.code === code)
+    if (!color && !format && code !== 'r') {
+      current += ch
+      continue
+    }
+    if (current) spans.push({ ...style, text: current })
+    current = ''
+    if (color) style = { ...PLAIN_STYLE, color: color.name }
+    else if (format) style = { ...style, [format.key]: true }
+    else style = base
+    i++
+  }
+  if (current) spans.push({ ...style, text: current })
+  return spans
+}
+
+// Resolves style inheritance; text that can't be resolved offline (translations, keybinds) shows
+// its fallback or key.
+export function flattenComponent(component: unknown, base: TextStyle = PLAIN_STYLE): TextSpan[] {
+  if (typeof component === 'string') return parseLegacyText(component, base)
+  if (Array.isArray(component)) {
+    if (component.length === 0) return []
+    const [parent, ...children] = component
+    if (isRecord(parent)) return flattenComponent({ ...parent, extra: [...arrayOf(parent.extra), ...children] }, base)
+    return [parent, ...children].flatMap((c) => flattenComponent(c, base))
+  }
+  if (!isRecord(component)) return []
+
+  const style: TextStyle = { ...base }
+  if (typeof component.color === 'string' && colorToHex(component.color)) style.color = component.color
+  for (const key of FORMAT_KEYS) {
+    if (typeof component[key] === 'boolean') style[key] = component[key]
+  }
+
+  // An empty segment is kept so that editors can show it.
+  if (component.text === '' && component.extra === undefined) return [{ ...style, text: '' }]
+
+  let content = ''
+  if (typeof component.text === 'string') content = component.text
+  else if (typeof component.translate === 'string') content = typeof component.fallback === 'string' ? component.fallback : component.translate
+  else if (typeof component.keybind === 'string') content = component.keybind
+
+  const spans = parseLegacyText(content, style)
+  for (const child of arrayOf(component.extra)) spans.push(...flattenComponent(child, style))
+  return spans
+}
+
+export function componentToPlainText(component: unknown): string {
+  return flattenComponent(component)
+    .map((s) => s.text)
+    .join('')
+}
+
+// A § coded string; hex colors are replaced by the closest legacy color.
+export function spansToLegacy(spans: TextSpan[]): string {
+  let out = ''
+  let style = PLAIN_STYLE
+  for (const span of spans) {
+    if (!span.text) continue
+    const color = span.color ? (nearestLegacyColor(span.color)?.name ?? null) : null
+    const dropsFormat = FORMAT_KEYS.some((key) => style[key] && !span[key])
+    if (color !== style.color || dropsFormat) {
+      // Color codes reset formatting, so everything still on is written again after them.
+      out += color ? `§${LEGACY_COLORS.find((c) => c.name === color)!.code}` : '§r'
+      style = { ...PLAIN_STYLE, color }
+    }
+    for (const format of LEGACY_FORMATS) {
+      if (span[format.key] && !style[format.key]) out += `§${format.code}`
+    }
+    style = { ...span, color }
+    out += span.text
+  }
+  return out
+}
+
+// JSON form: one object for a single segment, else ["", {…}, {…}] so that no segment inherits from another.
+export function spansToComponent(spans: TextSpan[]): TextComponent {
+  if (spans.length === 0) return { text: '' }
+  if (spans.length === 1) return spanToObject(spans[0])
+  return ['', ...spans.map(spanToObject)]
+}
+
+// Width of a character in the default font, including the 1px gap after it. Characters outside
+// ASCII are drawn from other font providers; they are counted as 6px.
+export function charAdvance(ch: string, bold: boolean): number {
+  return (CHAR_ADVANCES[ch] ?? 6) + (bold ? 1 : 0)
+}
+
+export function textWidth(spans: TextSpan[]): number {
+  let width = 0
+  for (const span of spans) {
+    for (const ch of span.text) width += charAdvance(ch, span.bold)
+  }
+  return width
+}
+
+// Breaks text into lines the way the game does: at the last space that fits, mid-word when a
+// word is wider than the line, and at every newline.
+export function wrapSpans(spans: TextSpan[], maxWidth: number): TextSpan[][] {
+  type Char = { ch: string; style: TextSpan }
+  const lines: Char[][] = [[]]
+  let width = 0
+  let lastSpace = -1
+
+  for (const span of spans) {
+    for (const ch of span.text) {
+      let line = lines[lines.length - 1]
+      if (ch === '\n') {
+        lines.push([])
+        width = 0
+        lastSpace = -1
+        continue
+      }
+
+      const advance = charAdvance(ch, span.bold)
+      if (width + advance > maxWidth && line.length > 0) {
+        if (ch === ' ') {
+          lines.push([])
+          width = 0
+          lastSpace = -1
+          continue
+        }
+        // The space the line breaks at is dropped; what follows it moves down.
+        const carried = lastSpace >= 0 ? line.splice(lastSpace).slice(1) : []
+        line = []
+        lines.push(line)
+        line.push(...carried)
+        width = carried.reduce((sum, c) => sum + charAdvance(c.ch, c.style.bold), 0)
+        lastSpace = -1
+      }
+
+      if (ch === ' ') lastSpace = line.length
+      line.push({ ch, style: span })
+      width += advance
+    }
+  }
+
+  return lines.map((line) => {
+    const merged: TextSpan[] = []
+    for (const { ch, style } of line) {
+      const last = merged[merged.length - 1]
+      if (last && sameStyle(last, style)) last.text += ch
+      else merged.push({ ...style, text: ch })
+    }
+    return merged
+  })
+}
+
+const CHAR_ADVANCES: Record<string, number> = {
+  ' ': 4,
+  '!': 2,
+  '"': 4,
+  "'": 2,
+  '(': 4,
+  ')': 4,
+  '*': 4,
+  ',': 2,
+  '.': 2,
+  ':': 2,
+  ';': 2,
+  '<': 5,
+  '>': 5,
+  '@': 7,
+  I: 4,
+  '[': 4,
+  ']': 4,
+  '`': 3,
+  f: 5,
+  i: 2,
+  k: 5,
+  l: 3,
+  t: 4,
+  '{': 4,
+  '|': 2,
+  '}': 4,
+  '~': 7,
+}
+
+function spanToObject(span: TextSpan): TextComponentObject {
+  const object: TextComponentObject = { text: span.text }
+  if (span.color) object.color = span.color
+  for (const key of FORMAT_KEYS) {
+    if (span[key]) object[key] = true
+  }
+  return object
+}
+
+function sameStyle(a: TextStyle, b: TextStyle): boolean {
+  return a.color === b.color && FORMAT_KEYS.every((key) => a[key] === b[key])
+}
+
+function rgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.slice(1), 16)
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]
+}
+
+function arrayOf(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : []
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
@@ -0,0 +1,557 @@
+import type { Vfs } from './types'
+import { readJson, writeJson } from './vfs'
+
+// Texture moves between versions, keyed by the first pack format using the new paths. Upgrading
+// across a boundary applies its table; downgrading applies it in reverse. Ids are relative to
+// `textures/`, without the .png extension.
+
+export type TextureRenameTable = {
+  format: number
+  // Set when the format before `format` also covers the version that made the change (format 5 is both
+  // 1.15 and 1.16): converting into it can't tell which names apply, so the files are kept and reported.
+  sharedFormat?: number
+  version: string
+  // Directory moves applied in every namespace, e.g. blocks/ → block/.
+  folders: [string, string][]
+  // Renames of minecraft textures, using the directories after the moves above.
+  textures: Record<string, string>
+  // Textures that were cut into several files; these are only reported.
+  splits: { texture: string; into: string }[]
+  // Blocks and items whose id changed: their minecraft models (relative to `models/`) and blockstates.
+  models?: Record<string, string>
+  blockstates?: Record<string, string>
+}
+
+export type TextureMigration = {
+  changes: string[]
+  warnings: string[]
+}
+
+const COLORS = ['white', 'orange', 'magenta', 'light_blue', 'yellow', 'lime', 'pink', 'gray', 'light_gray', 'cyan', 'purple', 'blue', 'brown', 'green', 'red', 'black']
+const WOODS = ['oak', 'spruce', 'birch', 'jungle', 'acacia', 'dark_oak']
+const MUSIC_DISCS = ['13', 'cat', 'blocks', 'chirp', 'far', 'mall', 'mellohi', 'stal', 'strad', 'ward', '11', 'wait']
+
+// 1.12 spelled light gray "silver" and dark oak "big_oak" or "roofed_oak".
+const oldColor = (color: string) => (color === 'light_gray' ? 'silver' : color)
+const oldWood = (wood: string, darkOak = 'big_oak') => (wood === 'dark_oak' ? darkOak : wood)
+
+function flatteningRenames(): Record<string, string> {
+  const block: Record<string, string> = {
+    stone_granite: 'granite',
+    stone_granite_smooth: 'polished_granite',
+    stone_diorite: 'diorite',
+    stone_diorite_smooth: 'polished_diorite',
+    stone_andesite: 'andesite',
+    stone_andesite_smooth: 'polished_andesite',
+    grass_side: 'grass_block_side',
+    grass_top: 'grass_block_top',
+    grass_side_overlay: 'grass_block_side_overlay',
+    grass_side_snowed: 'grass_block_snow',
+    dirt_podzol_side: 'podzol_side',
+    dirt_podzol_top: 'podzol_top',
+    cobblestone_mossy: 'mossy_cobblestone',
+    brick: 'bricks',
+    stonebrick: 'stone_bricks',
+    stonebrick_mossy: 'mossy_stone_bricks',
+    stonebrick_cracked: 'cracked_stone_bricks',
+    stonebrick_carved: 'chiseled_stone_bricks',
+    nether_brick: 'nether_bricks',
+    red_nether_brick: 'red_nether_bricks',
+    end_bricks: 'end_stone_bricks',
+    quartz_ore: 'nether_quartz_ore',
+    quartz_block_chiseled: 'chiseled_quartz_block',
+    quartz_block_lines: 'quartz_pillar',
+    quartz_block_lines_top: 'quartz_pillar_top',
+    sandstone_normal: 'sandstone',
+    sandstone_carved: 'chiseled_sandstone',
+    sandstone_smooth: 'cut_sandstone',
+    red_sandstone_normal: 'red_sandstone',
+    red_sandstone_carved: 'chiseled_red_sandstone',
+    red_sandstone_smooth: 'cut_red_sandstone',
+    stone_slab_top: 'smooth_stone',
+    stone_slab_side: 'smooth_stone_slab_side',
+    prismarine_rough: 'prismarine',
+    prismarine_dark: 'dark_prismarine',
+    sponge_wet: 'wet_sponge',
+    slime: 'slime_block',
+    ice_packed: 'packed_ice',
+    hardened_clay: 'terracotta',
+    mob_spawner: 'spawner',
+    portal: 'nether_portal',
+    noteblock: 'note_block',
+    web: 'cobweb',
+    waterlily: 'lily_pad',
+    reeds: 'sugar_cane',
+    deadbush: 'dead_bush',
+    tallgrass: 'grass',
+    double_plant_grass_bottom: 'tall_grass_bottom',
+    double_plant_grass_top: 'tall_grass_top',
+    mushroom_red: 'red_mushroom',
+    mushroom_brown: 'brown_mushroom',
+    flower_rose: 'poppy',
+    flower_dandelion: 'dandelion',
+    flower_blue_orchid: 'blue_orchid',
+    flower_allium: 'allium',
+    flower_houstonia: 'azure_bluet',
+    flower_tulip_red: 'red_tulip',
+    flower_tulip_orange: 'orange_tulip',
+    flower_tulip_white: 'white_tulip',
+    flower_tulip_pink: 'pink_tulip',
+    flower_oxeye_daisy: 'oxeye_daisy',
+    pumpkin_face_off: 'carved_pumpkin',
+    pumpkin_face_on: 'jack_o_lantern',
+    furnace_front_off: 'furnace_front',
+    redstone_lamp_off: 'redstone_lamp',
+    redstone_torch_on: 'redstone_torch',
+    torch_on: 'torch',
+    comparator_off: 'comparator',
+    repeater_off: 'repeater',
+    rail_normal: 'rail',
+    rail_normal_turned: 'rail_corner',
+    rail_golden: 'powered_rail',
+    rail_golden_powered: 'powered_rail_on',
+    rail_activator: 'activator_rail',
+    rail_activator_powered: 'activator_rail_on',
+    rail_detector: 'detector_rail',
+    rail_detector_powered: 'detector_rail_on',
+    trapdoor: 'oak_trapdoor',
+    door_wood_lower: 'oak_door_bottom',
+    door_wood_upper: 'oak_door_top',
+    door_iron_lower: 'iron_door_bottom',
+    door_iron_upper: 'iron_door_top',
+    dispenser_front_horizontal: 'dispenser_front',
+    dropper_front_horizontal: 'dropper_front',
+    anvil_base: 'anvil',
+    endframe_top: 'end_portal_frame_top',
+    endframe_side: 'end_portal_frame_side',
+    endframe_eye: 'end_portal_frame_eye',
+    farmland_wet: 'farmland_moist',
+    farmland_dry: 'farmland',
+    melon_stem_disconnected: 'melon_stem',
+    melon_stem_connected: 'attached_melon_stem',
+    pumpkin_stem_disconnected: 'pumpkin_stem',
+    pumpkin_stem_connected: 'attached_pumpkin_stem',
+    itemframe_background: 'item_frame',
+  }
+  for (const wood of WOODS) {
+    const old = oldWood(wood)
+    block[`planks_${old}`] = `${wood}_planks`
+    block[`log_${old}`] = `${wood}_log`
+    block[`log_${old}_top`] = `${wood}_log_top`
+    block[`leaves_${old}`] = `${wood}_leaves`
+    block[`sapling_${oldWood(wood, 'roofed_oak')}`] = `${wood}_sapling`
+    if (wood !== 'oak') {
+      block[`door_${wood}_lower`] = `${wood}_door_bottom`
+      block[`door_${wood}_upper`] = `${wood}_door_top`
+    }
+  }
+  for (const color of COLORS) {
+    const old = oldColor(color)
+    block[`wool_colored_${old}`] = `${color}_wool`
+    block[`glass_${old}`] = `${color}_stained_glass`
+    block[`glass_pane_top_${old}`] = `${color}_stained_glass_pane_top`
+    block[`hardened_clay_stained_${old}`] = `${color}_terracotta`
+    block[`concrete_${old}`] = `${color}_concrete`
+    block[`concrete_powder_${old}`] = `${color}_concrete_powder`
+    block[`glazed_terracotta_${old}`] = `${color}_glazed_terracotta`
+  }
+  for (const crop of ['wheat', 'carrots', 'potatoes', 'beetroots', 'nether_wart', 'cocoa']) {
+    for (let stage = 0; stage < 8; stage++) block[`${crop}_stage_${stage}`] = `${crop}_stage${stage}`
+  }
+
+  const item: Record<string, string> = {
+    apple_golden: 'golden_apple',
+    book_normal: 'book',
+    book_writable: 'writable_book',
+    book_written: 'written_book',
+    book_enchanted: 'enchanted_book',
+    bow_standby: 'bow',
+    bucket_empty: 'bucket',
+    bucket_water: 'water_bucket',
+    bucket_lava: 'lava_bucket',
+    bucket_milk: 'milk_bucket',
+    chicken_raw: 'chicken',
+    chicken_cooked: 'cooked_chicken',
+    beef_raw: 'beef',
+    beef_cooked: 'cooked_beef',
+    porkchop_raw: 'porkchop',
+    porkchop_cooked: 'cooked_porkchop',
+    mutton_raw: 'mutton',
+    mutton_cooked: 'cooked_mutton',
+    rabbit_raw: 'rabbit',
+    rabbit_cooked: 'cooked_rabbit',
+    fish_cod_raw: 'cod',
+    fish_cod_cooked: 'cooked_cod',
+    fish_salmon_raw: 'salmon',
+    fish_salmon_cooked: 'cooked_salmon',
+    fish_clownfish_raw: 'tropical_fish',
+    fish_pufferfish_raw: 'pufferfish',
+    potato_baked: 'baked_potato',
+    potato_poisonous: 'poisonous_potato',
+    carrot_golden: 'golden_carrot',
+    melon: 'melon_slice',
+    melon_speckled: 'glistering_melon_slice',
+    seeds_wheat: 'wheat_seeds',
+    seeds_pumpkin: 'pumpkin_seeds',
+    seeds_melon: 'melon_seeds',
+    fireworks: 'firework_rocket',
+    fireworks_charge: 'firework_star',
+    fireworks_charge_overlay: 'firework_star_overlay',
+    netherbrick: 'nether_brick',
+    map_filled: 'filled_map',
+    map_empty: 'map',
+    minecart_normal: 'minecart',
+    minecart_chest: 'chest_minecart',
+    minecart_furnace: 'furnace_minecart',
+    minecart_hopper: 'hopper_minecart',
+    minecart_tnt: 'tnt_minecart',
+    minecart_command_block: 'command_block_minecart',
+    potion_bottle_drinkable: 'potion',
+    potion_bottle_splash: 'splash_potion',
+    potion_bottle_lingering: 'lingering_potion',
+    potion_bottle_empty: 'glass_bottle',
+    redstone_dust: 'redstone',
+    reeds: 'sugar_cane',
+    slimeball: 'slime_ball',
+    spider_eye_fermented: 'fermented_spider_eye',
+    fireball: 'fire_charge',
+    fishing_rod_uncast: 'fishing_rod',
+    chorus_fruit_popped: 'popped_chorus_fruit',
+    totem: 'totem_of_undying',
+    door_wood: 'oak_door',
+    door_iron: 'iron_door',
+    dye_powder_black: 'ink_sac',
+    dye_powder_brown: 'cocoa_beans',
+    dye_powder_blue: 'lapis_lazuli',
+    dye_powder_white: 'bone_meal',
+    // Format 4 spans 1.13 and 1.14; the 1.14 names are used.
+    dye_powder_red: 'red_dye',
+    dye_powder_green: 'green_dye',
+    dye_powder_yellow: 'yellow_dye',
+    sign: 'oak_sign',
+  }
+  for (const tool of ['sword', 'axe', 'pickaxe', 'shovel', 'hoe']) {
+    item[`wood_${tool}`] = `wooden_${tool}`
+    item[`gold_${tool}`] = `golden_${tool}`
+  }
+  for (const piece of ['helmet', 'chestplate', 'leggings', 'boots']) item[`gold_${piece}`] = `golden_${piece}`
+  for (const wood of WOODS) {
+    item[`boat_${wood}`] = `${wood}_boat`
+    if (wood !== 'oak') item[`door_${wood}`] = `${wood}_door`
+  }
+  for (const color of ['purple', 'cyan', 'gray', 'pink', 'lime', 'light_blue', 'magenta', 'orange']) {
+    item[`dye_powder_${color}`] = `${color}_dye`
+  }
+  item.dye_powder_silver = 'light_gray_dye'
+  for (const disc of MUSIC_DISCS) item[`record_${disc}`] = `music_disc_${disc}`
+
+  const renames: Record<string, string> = {
+    'entity/endercrystal/endercrystal': 'entity/end_crystal/end_crystal',
+    'entity/endercrystal/endercrystal_beam': 'entity/end_crystal/end_crystal_beam',
+    'entity/snowman': 'entity/snow_golem',
+    'entity/sign': 'entity/signs/oak',
+  }
+  for (const [from, to] of Object.entries(block)) renames[`block/${from}`] = `block/${to}`
+  for (const [from, to] of Object.entries(item)) renames[`item/${from}`] = `item/${to}`
+  return renames
+}
+
+export const TEXTURE_RENAME_TABLES: TextureRenameTable[] = [
+  {
+    format: 4,
+    version: '1.13',
+    folders: [
+      ['blocks', 'block'],
+      ['items', 'item'],
+    ],
+    textures: flatteningRenames(),
+    splits: [],
+  },
+  {
+    // The zombie pigman became the zombified piglin in 1.16, which still shares format 5 with 1.15.
+    format: 6,
+    sharedFormat: 5,
+    version: '1.16',
+    folders: [],
+    textures: { 'entity/zombie_pigman': 'entity/piglin/zombified_piglin' },
+    splits: [],
+  },
+  {
+    format: 7,
+    version: '1.17',
+    folders: [],
+    textures: {
+      'block/grass_path_side': 'block/dirt_path_side',
+      'block/grass_path_top': 'block/dirt_path_top',
+    },
+    splits: [],
+  },
+  {
+    format: 18,
+    version: '1.20.2',
+    folders: [],
+    textures: {},
+    splits: [
+      { texture: 'gui/widgets', into: 'gui/sprites/widget/ and gui/sprites/hud/' },
+      { texture: 'gui/icons', into: 'gui/sprites/hud/ and gui/sprites/icon/' },
+      { texture: 'gui/bars', into: 'gui/sprites/boss_bar/' },
+      { texture: 'gui/toasts', into: 'gui/sprites/toast/' },
+      { texture: 'gui/resource_packs', into: 'gui/sprites/transferable_list/' },
+      { texture: 'gui/server_selection', into: 'gui/sprites/server_list/' },
+      { texture: 'gui/spectator_widgets', into: 'gui/sprites/spectator/' },
+      { texture: 'gui/checkbox', into: 'gui/sprites/widget/checkbox*' },
+      { texture: 'gui/advancements/widgets', into: 'gui/sprites/advancements/' },
+    ],
+  },
+  {
+    format: 22,
+    version: '1.20.3',
+    folders: [],
+    textures: { 'block/grass': 'block/short_grass' },
+    splits: [],
+    models: { 'block/grass': 'block/short_grass', 'item/grass': 'item/short_grass' },
+    blockstates: { grass: 'short_grass' },
+  },
+  {
+    format: 55,
+    version: '1.21.5',
+    folders: [],
+    textures: {
+      'entity/cow/cow': 'entity/cow/temperate_cow',
+      'entity/pig/pig': 'entity/pig/temperate_pig',
+      'entity/chicken': 'entity/chicken/temperate_chicken',
+    },
+    splits: [],
+  },
+]
+
+const TEXTURE_FILE = /^assets\/([^/]+)\/textures\/(.+?)(\.png(?:\.mcmeta)?)$/
+const RESOURCE_LOCATION = /^(?:([a-z0-9_.-]+):)?([a-z0-9_./-]+?)(\.png)?$/
+
+// The tables crossed going from one format to the other, in the order they apply. A table whose
+// `sharedFormat` is the target is left out: the pack may be for either side of the change.
+export function renameTablesBetween(fromFormat: number, toFormat: number): TextureRenameTable[] {
+  if (fromFormat < toFormat) return TEXTURE_RENAME_TABLES.filter((t) => fromFormat < t.format && t.format <= toFormat)
+  return TEXTURE_RENAME_TABLES.filter((t) => toFormat < (t.sharedFormat ?? t.format) && (t.sharedFormat ?? t.format) <= fromFormat).reverse()
+}
+
+// Where a texture id ("ns:path") ends up after the given tables.
+export function migrateTextureId(id: string, tables: TextureRenameTable[], upgrade: boolean): string {
+  const colon = id.indexOf(':')
+  const namespace = colon < 0 ? 'minecraft' : id.slice(0, colon)
+  let path = colon < 0 ? id : id.slice(colon + 1)
+
+  for (const table of tables) {
+    if (upgrade) {
+      path = moveFolder(path, table.folders)
+      if (namespace === 'minecraft') path = table.textures[path] ?? path
+    } else {
+      if (namespace === 'minecraft') path = reverseTextures(table)[path] ?? path
+      path = moveFolder(
+        path,
+        table.folders.map(([from, to]) => [to, from]),
+      )
+    }
+  }
+  return `${namespace}:${path}`
+}
+
+// Moves texture files (and their .png.mcmeta), plus the models and blockstates of renamed blocks, across
+// the tables between two formats and updates the JSON files referring to them.
+export function migrateTexturePaths(files: Vfs, fromFormat: number, toFormat: number): TextureMigration {
+  const changes: string[] = []
+  const warnings: string[] = sharedFormatWarnings(files, fromFormat, toFormat)
+  const tables = renameTablesBetween(fromFormat, toFormat)
+  if (tables.length === 0) return { changes, warnings }
+  const upgrade = fromFormat < toFormat
+
+  for (const path of Array.from(files.keys())) {
+    const match = TEXTURE_FILE.exec(path)
+    if (!match) continue
+    const [, namespace, id, extension] = match
+
+    const migrated = migrateTextureId(`${namespace}:${id}`, tables, upgrade)
+    if (migrated === `${namespace}:${id}`) continue
+    const target = `assets/${namespace}/textures/${migrated.slice(migrated.indexOf(':') + 1)}${extension}`
+    if (files.has(target)) {
+      warnings.push(`Kept ${path}: ${target} already exists`)
+      continue
+    }
+    files.set(target, files.get(path)!)
+    files.delete(path)
+    changes.push(`Renamed ${path} → ${target}`)
+  }
+
+  for (const table of tables) {
+    const renames = [
+      ...Object.entries(table.models ?? {}).map(([from, to]) => [`models/${from}.json`, `models/${to}.json`]),
+      ...Object.entries(table.blockstates ?? {}).map(([from, to]) => [`blockstates/${from}.json`, `blockstates/${to}.json`]),
+    ]
+    for (const [before, after] of renames) {
+      const [from, to] = upgrade ? [before, after] : [after, before]
+      const path = `assets/minecraft/${from}`
+      const target = `assets/minecraft/${to}`
+      if (!files.has(path)) continue
+      if (files.has(target)) {
+        warnings.push(`Kept ${path}: ${target} already exists`)
+        continue
+      }
+      files.set(target, files.get(path)!)
+      files.delete(path)
+      changes.push(`Renamed ${path} → ${target}`)
+    }
+  }
+
+  for (const path of Array.from(files.keys())) {
+    const match = /^assets\/[^/]+\/([^/]+)\/.+\.json$/.exec(path)
+    if (!match || !(match[1] in REFERENCES)) continue
+    let json: unknown
+    try {
+      json = readJson<unknown>(files, path)
+    } catch (e) {
+      warnings.push(`Skipped ${path}: not valid JSON (${e instanceof Error ? e.message : String(e)}); its references were not updated`)
+      continue
+    }
+    if (json === null) continue
+    let count = 0
+    const counted = (rewrite: (value: string) => string) => (value: string) => {
+      const next = rewrite(value)
+      if (next !== value) count++
+      return next
+    }
+    REFERENCES[match[1]](json, {
+      texture: counted((value) => migrateReference(value, tables, upgrade)),
+      model: counted((value) => migrateModelReference(value, tables, upgrade)),
+    })
+    if (count === 0) continue
+    writeJson(files, path, json)
+    changes.push(`Updated ${count} reference${count === 1 ? '' : 's'} in ${path}`)
+  }
+
+  if (upgrade) {
+    for (const table of tables) {
+      for (const split of table.splits) {
+        const path = `assets/minecraft/textures/${split.texture}.png`
+        if (!files.has(path)) continue
+        warnings.push(`${path} is not used from ${table.version} on; its parts now live in ${split.into} and need to be cut out by hand`)
+      }
+    }
+  } else if (tables.some((t) => t.splits.length > 0)) {
+    const sprites = Array.from(files.keys()).filter((p) => p.startsWith('assets/minecraft/textures/gui/sprites/'))
+    if (sprites.length > 0) {
+      warnings.push(`${sprites.length} GUI sprites under textures/gui/sprites/ are ignored by older versions, which read combined sheets`)
+    }
+  }
+
+  return { changes, warnings }
+}
+
+// Textures left alone because the target format spans the version that renamed them.
+function sharedFormatWarnings(files: Vfs, fromFormat: number, toFormat: number): string[] {
+  const warnings: string[] = []
+  if (fromFormat === toFormat) return warnings
+  for (const table of TEXTURE_RENAME_TABLES) {
+    if (table.sharedFormat !== toFormat) continue
+    for (const [before, after] of Object.entries(table.textures)) {
+      for (const id of [before, after]) {
+        const path = `assets/minecraft/textures/${id}.png`
+        if (!files.has(path)) continue
+        warnings.push(`Kept ${path}: format ${toFormat} covers versions before and after ${table.version}, which reads ${after} instead of ${before}`)
+      }
+    }
+  }
+  return warnings
+}
+
+function moveFolder(path: string, folders: [string, string][]): string {
+  for (const [from, to] of folders) {
+    if (path.startsWith(`${from}/`)) return `${to}${path.slice(from.length)}`
+  }
+  return path
+}
+
+const reversed = new WeakMap<TextureRenameTable, Record<string, string>>()
+
+function reverseTextures(table: TextureRenameTable): Record<string, string> {
+  let map = reversed.get(table)
+  if (!map) {
+    map = Object.fromEntries(Object.entries(table.textures).map(([from, to]) => [to, from]))
+    reversed.set(table, map)
+  }
+  return map
+}
+
+// Keeps the reference's own form: with or without namespace and .png extension.
+function migrateReference(value: string, tables: TextureRenameTable[], upgrade: boolean): string {
+  const match = RESOURCE_LOCATION.exec(value)
+  if (!match) return value
+  const [, namespace, path, extension = ''] = match
+  const migrated = migrateTextureId(`${namespace ?? 'minecraft'}:${path}`, tables, upgrade)
+  const migratedPath = migrated.slice(migrated.indexOf(':') + 1)
+  if (migratedPath === path) return value
+  return `${namespace !== undefined ? `${namespace}:` : ''}${migratedPath}${extension}`
+}
+
+function migrateModelReference(value: string, tables: TextureRenameTable[], upgrade: boolean): string {
+  const match = RESOURCE_LOCATION.exec(value)
+  if (!match || match[3] || (match[1] !== undefined && match[1] !== 'minecraft')) return value
+  let path = match[2]
+  for (const table of tables) {
+    const models = table.models ?? {}
+    const renamed = upgrade ? models[path] : Object.keys(models).find((from) => models[from] === path)
+    path = renamed ?? path
+  }
+  return path === match[2] ? value : `${match[1] !== undefined ? 'minecraft:' : ''}${path}`
+}
+
+type ReferenceRewriters = {
+  texture: (value: string) => string
+  model: (value: string) => string
+}
+
+// Where each kind of JSON file refers to textures (and models) by id, so other strings that happen
+// to look like paths are never touched. Rewrites in place.
+const REFERENCES: Record<string, (json: unknown, rewrite: ReferenceRewriters) => void> = {
+  models: (json, rewrite) => {
+    if (!isRecord(json)) return
+    rewriteKey(json, 'parent', rewrite.model)
+    if (isRecord(json.textures)) {
+      for (const key of Object.keys(json.textures)) rewriteKey(json.textures, key, rewrite.texture)
+    }
+  },
+  blockstates: (json, rewrite) => {
+    if (!isRecord(json)) return
+    const variants = isRecord(json.variants) ? Object.values(json.variants) : []
+    const parts = Array.isArray(json.multipart) ? json.multipart.map((part) => (isRecord(part) ? part.apply : undefined)) : []
+    for (const entry of [...variants, ...parts]) {
+      for (const model of Array.isArray(entry) ? entry : [entry]) {
+        if (isRecord(model)) rewriteKey(model, 'model', rewrite.model)
+      }
+    }
+  },
+  // Bitmap providers.
+  font: (json, rewrite) => {
+    if (!isRecord(json) || !Array.isArray(json.providers)) return
+    for (const provider of json.providers) if (isRecord(provider)) rewriteKey(provider, 'file', rewrite.texture)
+  },
+  // single, unstitch and paletted_permutations sources; directory sources name folders, not textures.
+  atlases: (json, rewrite) => {
+    if (!isRecord(json) || !Array.isArray(json.sources)) return
+    for (const source of json.sources) {
+      if (!isRecord(source)) continue
+      for (const key of ['resource', 'sprite', 'palette_key']) rewriteKey(source, key, rewrite.texture)
+      if (Array.isArray(source.textures)) {
+        source.textures = source.textures.map((t) => (typeof t === 'string' ? rewrite.texture(t) : t))
+      }
+    }
+  },
+}
+
+function rewriteKey(record: Record<string, unknown>, key: string, rewrite: (value: string) => string) {
+  const value = record[key]
+  if (typeof value === 'string') record[key] = rewrite(value)
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
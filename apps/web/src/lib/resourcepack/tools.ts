@@ -1,5 +1,5 @@
 import type { ResourcePack, Vfs } from './types'
-import { cloneVfs, readJson, readText, vfsGet, vfsSet, writeJson } from './vfs'
+import { cloneVfs, createVfs, readJson, readText, vfsGet, vfsSet, writeJson } from './vfs'
 
 export type CmdInput = {
   itemId: string // e.g. "diamond_sword" or "minecraft:diamond_sword"
@@ -55,8 +55,10 @@ export function replaceVanillaTexture(pack: ResourcePack, input: VanillaReplaceI
 }
 
 export function mixPacks(packsInPriorityOrder: ResourcePack[], outputName: string): ResourcePack {
-  const out: Vfs = new Map()
-  for (const pack of packsInPriorityOrder) {
+  // Start from the lowest-priority pack so its entries are shared instead of copied.
+  const [first, ...rest] = packsInPriorityOrder
+  const out: Vfs = first ? cloneVfs(first.files) : createVfs()
+  for (const pack of rest) {
     for (const [path, data] of pack.files.entries()) {
       out.set(path, data)
     }
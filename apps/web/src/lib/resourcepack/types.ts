@@ -18,3 +18,6 @@ export type FontProvider = BitmapFontProvider | { type: 'default' } | { type: st
 export type FontDefinition = {
   providers: FontProvider[]
 }
+
+// Long-running operations report `done` out of `total` units (files, usually).
+export type ProgressCallback = (done: number, total: number) => void
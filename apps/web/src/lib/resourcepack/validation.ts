@@ -1,5 +1,9 @@
 import type { ResourcePack } from './types'
-import { readJson, vfsGet } from './vfs'
+import { MIN_FORMAT_FIELDS_FORMAT, parseFormatValue, parseSupportedFormats } from './metadata'
+import { filterPatternError, parseFilterBlock } from './filter'
+import { isTextComponent } from './textComponent'
+import { cloneVfs, readJson, vfsGet } from './vfs'
+import { compareFormats, formatToString } from './versioning'
 
 export type ValidationIssue = {
   severity: 'error' | 'warning' | 'info'
@@ -21,7 +25,7 @@ export function validatePack(pack: ResourcePack): ValidationIssue[] {
     })
   } else {
     // Validate pack.mcmeta structure
-    const mcmeta = readJson<{ pack?: { pack_format?: unknown; description?: unknown } }>(pack.files, 'pack.mcmeta')
+    const mcmeta = readJson<{ pack?: Record<string, unknown>; filter?: unknown }>(pack.files, 'pack.mcmeta')
     if (!mcmeta?.pack) {
       issues.push({
         severity: 'error',
@@ -29,21 +33,22 @@ export function validatePack(pack: ResourcePack): ValidationIssue[] {
         path: 'pack.mcmeta',
       })
     } else {
-      if (typeof mcmeta.pack.pack_format !== 'number') {
+      issues.push(...validateFormatFields(mcmeta.pack))
+      if (mcmeta.pack.description === undefined) {
         issues.push({
-          severity: 'error',
-          message: 'pack.mcmeta is missing valid "pack_format" number',
+          severity: 'warning',
+          message: 'pack.mcmeta is missing "description" string',
           path: 'pack.mcmeta',
         })
-      }
-      if (typeof mcmeta.pack.description !== 'string') {
+      } else if (!isTextComponent(mcmeta.pack.description)) {
         issues.push({
           severity: 'warning',
-          message: 'pack.mcmeta is missing "description" string',
+          message: 'pack.mcmeta "description" is neither a string nor a valid text component',
           path: 'pack.mcmeta',
         })
       }
     }
+    if (mcmeta?.filter !== undefined) issues.push(...validateFilter(mcmeta.filter))
   }
 
   // Validate all JSON files
@@ -101,6 +106,67 @@ export function validatePack(pack: ResourcePack): ValidationIssue[] {
   return issues
 }
 
+// pack_format, supported_formats and min_format/max_format in the "pack" section of pack.mcmeta.
+function validateFormatFields(section: Record<string, unknown>): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+  const error = (message: string) => issues.push({ severity: 'error', message, path: 'pack.mcmeta' })
+
+  const packFormat = section.pack_format
+  const minFormat = parseFormatValue(section.min_format)
+  const maxFormat = parseFormatValue(section.max_format)
+  if (packFormat !== undefined && typeof packFormat !== 'number') error('pack.mcmeta has an invalid "pack_format" (expected a number)')
+  if (packFormat === undefined && minFormat === null && maxFormat === null) {
+    error('pack.mcmeta is missing valid "pack_format" number')
+  }
+
+  if (section.supported_formats !== undefined) {
+    const range = parseSupportedFormats(section.supported_formats)
+    if (!range) {
+      error('pack.mcmeta has an invalid "supported_formats" (expected a number, [min, max] or {min_inclusive, max_inclusive})')
+    } else if (range.min > range.max) {
+      error(`pack.mcmeta "supported_formats" starts above where it ends (${range.min} > ${range.max})`)
+    } else if (typeof packFormat === 'number' && (packFormat < range.min || packFormat > range.max)) {
+      issues.push({
+        severity: 'warning',
+        message: `pack_format ${packFormat} is outside "supported_formats" ${range.min}–${range.max}`,
+        path: 'pack.mcmeta',
+      })
+    }
+  }
+
+  for (const key of ['min_format', 'max_format'] as const) {
+    if (section[key] !== undefined && parseFormatValue(section[key]) === null) {
+      error(`pack.mcmeta has an invalid "${key}" (expected a number, [major] or [major, minor])`)
+    }
+  }
+  if (minFormat !== null && maxFormat !== null && compareFormats(minFormat, maxFormat) > 0) {
+    error(`pack.mcmeta "min_format" ${formatToString(minFormat)} is above "max_format" ${formatToString(maxFormat)}`)
+  }
+
+  const newest = maxFormat ?? (typeof packFormat === 'number' ? packFormat : null)
+  if (newest !== null && compareFormats(newest, MIN_FORMAT_FIELDS_FORMAT) >= 0 && (minFormat === null || maxFormat === null)) {
+    issues.push({
+      severity: 'error',
+      message: `Packs for format ${MIN_FORMAT_FIELDS_FORMAT} or newer need "min_format" and "max_format" in pack.mcmeta`,
+      path: 'pack.mcmeta',
+      fix: 'Apply pack settings to add them',
+    })
+  }
+
+  return issues
+}
+
+function validateFilter(filter: unknown): ValidationIssue[] {
+  const patterns = parseFilterBlock(filter)
+  if (!patterns) return [{ severity: 'error', message: 'pack.mcmeta "filter" needs a "block" list', path: 'pack.mcmeta' }]
+  const issues: ValidationIssue[] = []
+  patterns.forEach((pattern, i) => {
+    const error = filterPatternError(pattern)
+    if (error) issues.push({ severity: 'error', message: `pack.mcmeta filter.block entry ${i + 1}: ${error}`, path: 'pack.mcmeta' })
+  })
+  return issues
+}
+
 export function validateJson(jsonString: string): { valid: boolean; error?: string } {
   try {
     JSON.parse(jsonString)
@@ -186,7 +252,7 @@ export function suggestFixes(pack: ResourcePack): string[] {
 
 export function autoFixPack(pack: ResourcePack): { pack: ResourcePack; fixed: string[] } {
   const fixed: string[] = []
-  const newFiles = new Map(pack.files)
+  const newFiles = cloneVfs(pack.files)
 
   // Remove paths with backslashes by re-normalizing them
   for (const [path, data] of Array.from(newFiles.entries())) {
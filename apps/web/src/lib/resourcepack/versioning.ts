@@ -4,23 +4,199 @@ export type ResourcePackFormatOption = {
   packFormat: number
 }
 
-// Source: Minecraft pack format tables. Keep this list focused on modern releases.
-export const RESOURCE_PACK_FORMATS: ResourcePackFormatOption[] = [
-  { id: '1.20-1.20.1', label: 'Java 1.20 – 1.20.1', packFormat: 15 },
-  { id: '1.20.2', label: 'Java 1.20.2', packFormat: 18 },
-  { id: '1.20.3-1.20.4', label: 'Java 1.20.3 – 1.20.4', packFormat: 22 },
-  { id: '1.20.5-1.20.6', label: 'Java 1.20.5 – 1.20.6', packFormat: 32 },
-  { id: '1.21-1.21.3', label: 'Java 1.21 – 1.21.3', packFormat: 34 },
-  { id: '1.21.4', label: 'Java 1.21.4', packFormat: 46 },
-  { id: '1.21.5', label: 'Java 1.21.5', packFormat: 55 },
-  { id: '1.21.6', label: 'Java 1.21.6', packFormat: 63 },
-  { id: '1.21.7-1.21.8', label: 'Java 1.21.7 – 1.21.8', packFormat: 64 },
+export type PackFormatEntry = {
+  // Whole formats up to 64; from 25w31a formats are fractional (65.1), split into major and minor.
+  packFormat: number
+  minor: number
+  type: 'release' | 'snapshot'
+  // Every version using this format, oldest first.
+  versions: string[]
+}
+
+// Either a whole format or [major, minor].
+export type PackFormatValue = number | readonly [number, number]
+
+// The newest version the table below is complete up to. Bump it with every row added.
+export const PACK_FORMAT_TABLE_VERSION = '1.21.10'
+
+const release = (format: PackFormatValue, versions: string[]): PackFormatEntry => entry('release', format, versions)
+const snapshot = (format: PackFormatValue, versions: string[]): PackFormatEntry => entry('snapshot', format, versions)
+
+// Resource pack formats of Java Edition, oldest first. Source: the pack format tables on the
+// Minecraft Wiki. Snapshot rows list weekly snapshots whose format was never used by a release;
+// pre-releases and release candidates are left out.
+export const PACK_FORMATS: PackFormatEntry[] = [
+  release(1, [
+    '1.6.1', '1.6.2', '1.6.4', '1.7.2', '1.7.4', '1.7.5', '1.7.6', '1.7.7', '1.7.8', '1.7.9', '1.7.10',
+    '1.8', '1.8.1', '1.8.2', '1.8.3', '1.8.4', '1.8.5', '1.8.6', '1.8.7', '1.8.8', '1.8.9',
+  ]),
+  release(2, ['1.9', '1.9.1', '1.9.2', '1.9.3', '1.9.4', '1.10', '1.10.1', '1.10.2']),
+  release(3, ['1.11', '1.11.1', '1.11.2', '1.12', '1.12.1', '1.12.2']),
+  release(4, ['1.13', '1.13.1', '1.13.2', '1.14', '1.14.1', '1.14.2', '1.14.3', '1.14.4']),
+  release(5, ['1.15', '1.15.1', '1.15.2', '1.16', '1.16.1']),
+  release(6, ['1.16.2', '1.16.3', '1.16.4', '1.16.5']),
+  release(7, ['1.17', '1.17.1']),
+  release(8, ['1.18', '1.18.1', '1.18.2']),
+  release(9, ['1.19', '1.19.1', '1.19.2']),
+  snapshot(11, ['22w42a', '22w43a', '22w44a']),
+  release(12, ['1.19.3']),
+  release(13, ['1.19.4']),
+  snapshot(14, ['23w14a', '23w16a']),
+  release(15, ['1.20', '1.20.1']),
+  snapshot(16, ['23w31a']),
+  snapshot(17, ['23w32a', '23w33a', '23w35a']),
+  release(18, ['1.20.2']),
+  snapshot(19, ['23w42a']),
+  snapshot(20, ['23w43a', '23w43b', '23w44a']),
+  snapshot(21, ['23w45a', '23w46a']),
+  release(22, ['1.20.3', '1.20.4']),
+  snapshot(24, ['24w03a', '24w03b', '24w04a']),
+  snapshot(25, ['24w05a', '24w05b']),
+  snapshot(26, ['24w06a', '24w07a']),
+  snapshot(28, ['24w09a', '24w10a']),
+  snapshot(29, ['24w11a']),
+  snapshot(30, ['24w12a']),
+  snapshot(31, ['24w13a', '24w14a']),
+  release(32, ['1.20.5', '1.20.6']),
+  snapshot(33, ['24w18a', '24w19a', '24w19b', '24w20a']),
+  release(34, ['1.21', '1.21.1']),
+  snapshot(35, ['24w33a']),
+  snapshot(36, ['24w34a', '24w35a']),
+  snapshot(37, ['24w36a']),
+  snapshot(38, ['24w37a']),
+  snapshot(39, ['24w38a', '24w39a']),
+  snapshot(40, ['24w40a']),
+  release(42, ['1.21.2', '1.21.3']),
+  snapshot(43, ['24w44a']),
+  snapshot(44, ['24w45a']),
+  snapshot(45, ['24w46a']),
+  release(46, ['1.21.4']),
+  snapshot(47, ['25w02a']),
+  snapshot(48, ['25w03a']),
+  snapshot(49, ['25w04a']),
+  snapshot(50, ['25w05a']),
+  snapshot(51, ['25w06a']),
+  snapshot(52, ['25w07a']),
+  snapshot(53, ['25w08a', '25w09a', '25w09b']),
+  snapshot(54, ['25w10a']),
+  release(55, ['1.21.5']),
+  snapshot(56, ['25w15a']),
+  snapshot(57, ['25w16a']),
+  snapshot(58, ['25w17a']),
+  snapshot(59, ['25w18a']),
+  snapshot(60, ['25w19a']),
+  snapshot(61, ['25w20a']),
+  snapshot(62, ['25w21a']),
+  release(63, ['1.21.6']),
+  release(64, ['1.21.7', '1.21.8']),
+  snapshot([65, 0], ['25w31a']),
+  snapshot([65, 1], ['25w32a']),
+  snapshot([65, 2], ['25w33a']),
+  snapshot([66, 0], ['25w34a', '25w34b']),
+  snapshot([67, 0], ['25w35a']),
+  snapshot([68, 0], ['25w36a', '25w36b']),
+  release([69, 0], ['1.21.9', '1.21.10']),
 ]
 
+// The release options offered in the UI (and accepted as `version` in pack projects), oldest first.
+export const RESOURCE_PACK_FORMATS: ResourcePackFormatOption[] = PACK_FORMATS.filter((e) => e.type === 'release').map(
+  (e) => {
+    const first = e.versions[0]
+    const last = e.versions[e.versions.length - 1]
+    return {
+      id: first === last ? first : `${first}-${last}`,
+      label: first === last ? `Java ${first}` : `Java ${first} – ${last}`,
+      packFormat: e.packFormat,
+    }
+  },
+)
+
+export const LATEST_RELEASE: ResourcePackFormatOption = RESOURCE_PACK_FORMATS[RESOURCE_PACK_FORMATS.length - 1]
+
+// Ids saved by earlier versions of the table.
+const RENAMED_IDS: Record<string, string> = {
+  '1.21-1.21.3': '1.21-1.21.1',
+}
+
 export function findById(id: string): ResourcePackFormatOption | null {
-  return RESOURCE_PACK_FORMATS.find((o) => o.id === id) ?? null
+  const current = RENAMED_IDS[id] ?? id
+  return RESOURCE_PACK_FORMATS.find((o) => o.id === current) ?? null
 }
 
 export function findByPackFormat(packFormat: number): ResourcePackFormatOption | null {
   return RESOURCE_PACK_FORMATS.find((o) => o.packFormat === packFormat) ?? null
 }
+
+// Accepts an option id ("1.20.3-1.20.4") or any release version ("1.20.4").
+export function findOptionForVersion(version: string): ResourcePackFormatOption | null {
+  const byId = findById(version)
+  if (byId) return byId
+  const entry = findByVersion(version)
+  return entry?.type === 'release' ? findByPackFormat(entry.packFormat) : null
+}
+
+// Any release or listed snapshot ("1.21.1", "24w33a").
+export function findByVersion(version: string): PackFormatEntry | null {
+  return PACK_FORMATS.find((e) => e.versions.includes(version)) ?? null
+}
+
+// A whole format matches its .0 entry (or the release using it).
+export function findFormatEntry(format: PackFormatValue): PackFormatEntry | null {
+  const [major, minor] = splitFormat(format)
+  const matches = PACK_FORMATS.filter((e) => e.packFormat === major && e.minor === minor)
+  return matches.find((e) => e.type === 'release') ?? matches[0] ?? null
+}
+
+// Entries from `min` to `max`, both inclusive.
+export function formatsInRange(min: PackFormatValue, max: PackFormatValue): PackFormatEntry[] {
+  return PACK_FORMATS.filter((e) => compareFormats([e.packFormat, e.minor], min) >= 0 && compareFormats([e.packFormat, e.minor], max) <= 0)
+}
+
+// The releases a format range covers, e.g. "Java 1.20 – 1.21.1"; null if it covers none.
+export function describeFormatRange(min: PackFormatValue, max: PackFormatValue): string | null {
+  const releases = formatsInRange(min, max).filter((e) => e.type === 'release')
+  if (releases.length === 0) return null
+  const first = releases[0].versions[0]
+  const lastEntry = releases[releases.length - 1]
+  const last = lastEntry.versions[lastEntry.versions.length - 1]
+  return first === last ? `Java ${first}` : `Java ${first} – ${last}`
+}
+
+// e.g. "Java 1.21 – 1.21.1" or "snapshot 24w33a"; null for formats missing from the table.
+export function describePackFormat(format: PackFormatValue): string | null {
+  const e = findFormatEntry(format)
+  if (!e) return null
+  if (e.type === 'release') return findByPackFormat(e.packFormat)?.label ?? null
+  const first = e.versions[0]
+  const last = e.versions[e.versions.length - 1]
+  return first === last ? `snapshot ${first}` : `snapshots ${first} – ${last}`
+}
+
+export function compareFormats(a: PackFormatValue, b: PackFormatValue): number {
+  const [aMajor, aMinor] = splitFormat(a)
+  const [bMajor, bMinor] = splitFormat(b)
+  return aMajor - bMajor || aMinor - bMinor
+}
+
+export function formatToString(format: PackFormatValue): string {
+  const [major, minor] = splitFormat(format)
+  return typeof format === 'number' ? String(major) : `${major}.${minor}`
+}
+
+// "65" or "65.1", as typed in a form; '' is null and anything else undefined.
+export function parseFormatText(text: string): PackFormatValue | null | undefined {
+  const trimmed = text.trim()
+  if (!trimmed) return null
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(trimmed)
+  if (!match) return undefined
+  return match[2] === undefined ? Number(match[1]) : [Number(match[1]), Number(match[2])]
+}
+
+function splitFormat(format: PackFormatValue): [number, number] {
+  return typeof format === 'number' ? [format, 0] : [format[0], format[1]]
+}
+
+function entry(type: PackFormatEntry['type'], format: PackFormatValue, versions: string[]): PackFormatEntry {
+  const [packFormat, minor] = splitFormat(format)
+  return { packFormat, minor, type, versions }
+}
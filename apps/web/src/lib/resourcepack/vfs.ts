@@ -9,8 +9,59 @@ export function normalizePath(input: string): string {
   return p.replace(/^\/+/, '')
 }
 
+export type VfsChanges = {
+  added: string[]
+  modified: string[]
+  deleted: string[]
+}
+
+export function createVfs(entries?: Iterable<readonly [string, Uint8Array]>): Vfs {
+  return LayeredVfs.from(entries ?? [])
+}
+
+// O(changes) rather than O(files): the clone shares the frozen base layer with
+// its source and only copies the small overlay of writes/deletes on top of it.
 export function cloneVfs(files: Vfs): Vfs {
-  return new Map(files)
+  if (files instanceof LayeredVfs) return files.fork()
+  return LayeredVfs.from(files)
+}
+
+// Paths that differ between a baseline and a later state of the same pack.
+// Cheap when both sides were cloned from each other; falls back to a full scan otherwise.
+export function diffVfs(baseline: Vfs, current: Vfs): VfsChanges {
+  const changes: VfsChanges = { added: [], modified: [], deleted: [] }
+
+  const candidates = LayeredVfs.sharedCandidates(baseline, current)
+  if (candidates) {
+    for (const path of candidates) {
+      classifyChange(changes, path, baseline.get(path), current.get(path))
+    }
+  } else {
+    for (const [path, data] of current) {
+      classifyChange(changes, path, baseline.get(path), data)
+    }
+    for (const path of baseline.keys()) {
+      if (!current.has(path)) changes.deleted.push(path)
+    }
+  }
+
+  changes.added.sort()
+  changes.modified.sort()
+  changes.deleted.sort()
+  return changes
+}
+
+export function hasVfsChanges(changes: VfsChanges): boolean {
+  return changes.added.length > 0 || changes.modified.length > 0 || changes.deleted.length > 0
+}
+
+export function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a === b) return true
+  if (a.byteLength !== b.byteLength) return false
+  for (let i = 0; i < a.byteLength; i++) {
+    if (a[i] !== b[i]) return false
+  }
+  return true
 }
 
 export function vfsGet(files: Vfs, path: string): Uint8Array | undefined {
@@ -57,3 +108,125 @@ export function ensureParentDirsPath(path: string): string {
   // Not used to create directories in zip; kept for clarity where the hierarchy is.
   return normalizePath(path)
 }
+
+function classifyChange(changes: VfsChanges, path: string, before: Uint8Array | undefined, after: Uint8Array | undefined): void {
+  if (before === undefined && after === undefined) return
+  if (before === undefined) changes.added.push(path)
+  else if (after === undefined) changes.deleted.push(path)
+  else if (!bytesEqual(before, after)) changes.modified.push(path)
+}
+
+// Overlays larger than this (relative to the base) get folded into a new base on fork.
+const MIN_COMPACT_OVERLAY = 512
+const COMPACT_OVERLAY_RATIO = 0.25
+
+// A Map-compatible VFS made of a frozen base layer shared between clones plus a
+// private overlay of writes and deletes. Code that treats Vfs as a plain Map keeps
+// working; only the Map methods are overridden, the built-in storage stays empty.
+// Structured cloning (postMessage) does not see the entries: copy into `new Map(files)` first.
+class LayeredVfs extends Map<string, Uint8Array> {
+  private base: ReadonlyMap<string, Uint8Array> = new Map()
+  private writes = new Map<string, Uint8Array>()
+  private deletes = new Set<string>()
+  private count = 0
+
+  static from(entries: Iterable<readonly [string, Uint8Array]>): LayeredVfs {
+    const vfs = new LayeredVfs()
+    const base = new Map(entries)
+    vfs.base = base
+    vfs.count = base.size
+    return vfs
+  }
+
+  static sharedCandidates(a: Vfs, b: Vfs): Set<string> | null {
+    if (!(a instanceof LayeredVfs) || !(b instanceof LayeredVfs) || a.base !== b.base) return null
+    return new Set([...a.writes.keys(), ...a.deletes, ...b.writes.keys(), ...b.deletes])
+  }
+
+  fork(): LayeredVfs {
+    const overlay = this.writes.size + this.deletes.size
+    if (overlay > Math.max(MIN_COMPACT_OVERLAY, this.base.size * COMPACT_OVERLAY_RATIO)) {
+      this.compact()
+    }
+
+    const next = new LayeredVfs()
+    next.base = this.base
+    next.writes = new Map(this.writes)
+    next.deletes = new Set(this.deletes)
+    next.count = this.count
+    return next
+  }
+
+  private compact(): void {
+    // Content is unchanged, so existing forks of the old base stay valid.
+    this.base = new Map(this.entries())
+    this.writes = new Map()
+    this.deletes = new Set()
+  }
+
+  get size(): number {
+    return this.count
+  }
+
+  get(key: string): Uint8Array | undefined {
+    const written = this.writes.get(key)
+    if (written !== undefined) return written
+    if (this.deletes.has(key)) return undefined
+    return this.base.get(key)
+  }
+
+  has(key: string): boolean {
+    if (this.writes.has(key)) return true
+    return !this.deletes.has(key) && this.base.has(key)
+  }
+
+  set(key: string, value: Uint8Array): this {
+    if (!this.has(key)) this.count++
+    this.writes.set(key, value)
+    this.deletes.delete(key)
+    return this
+  }
+
+  delete(key: string): boolean {
+    if (!this.has(key)) return false
+    this.count--
+    this.writes.delete(key)
+    if (this.base.has(key)) this.deletes.add(key)
+    return true
+  }
+
+  clear(): void {
+    this.base = new Map()
+    this.writes = new Map()
+    this.deletes = new Set()
+    this.count = 0
+  }
+
+  *entries(): MapIterator<[string, Uint8Array]> {
+    for (const [key, value] of this.base) {
+      if (this.deletes.has(key)) continue
+      yield [key, this.writes.get(key) ?? value]
+    }
+    for (const [key, value] of this.writes) {
+      if (!this.base.has(key)) yield [key, value]
+    }
+  }
+
+  *keys(): MapIterator<string> {
+    for (const [key] of this.entries()) yield key
+  }
+
+  *values(): MapIterator<Uint8Array> {
+    for (const [, value] of this.entries()) yield value
+  }
+
+  [Symbol.iterator](): MapIterator<[string, Uint8Array]> {
+    return this.entries()
+  }
+
+  forEach(callback: (value: Uint8Array, key: string, map: Map<string, Uint8Array>) => void, thisArg?: unknown): void {
+    for (const [key, value] of this.entries()) {
+      callback.call(thisArg, value, key, this)
+    }
+  }
+}
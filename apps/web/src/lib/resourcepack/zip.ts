@@ -1,36 +1,191 @@
-import { unzip, zipSync } from 'fflate'
-import type { ResourcePack, Vfs } from './types'
-import { normalizePath } from './vfs'
-
-export async function importZip(file: File): Promise<ResourcePack> {
-  const bytes = new Uint8Array(await file.arrayBuffer())
-
-  const unzipped = await new Promise<Record<string, Uint8Array>>((resolve, reject) => {
-    unzip(bytes, (err, data) => {
-      if (err) reject(err)
-      else resolve(data)
-    })
+import { Unzip, UnzipInflate, Zip, ZipDeflate, ZipPassThrough, type UnzipFile } from 'fflate'
+import { DEFAULT_EXPORT_PROFILE, resolveCompression, type ExportProfile } from './compression'
+import type { ProgressCallback, ResourcePack, Vfs } from './types'
+import { createVfs } from './vfs'
+import { formatSize } from './analyzer'
+import { findPackRoots, rerootPack } from './roots'
+import {
+  COMPRESSION_RATIO_MIN_SIZE,
+  admitImportEntry,
+  createImportReport,
+  resolveImportLimits,
+  type ImportLimits,
+  type ImportReport,
+} from './sanitize'
+
+export type ImportZipOptions = {
+  onProgress?: ProgressCallback
+  // Return false to skip an entry without inflating it. Applied after the built-in junk filter.
+  filter?: (path: string) => boolean
+  limits?: Partial<ImportLimits>
+  // Re-root to the folder holding pack.mcmeta when there is exactly one; defaults to true.
+  detectRoot?: boolean
+}
+
+export type ImportResult = {
+  pack: ResourcePack
+  report: ImportReport
+}
+
+export async function importZip(file: File, options: ImportZipOptions = {}): Promise<ResourcePack> {
+  return (await importZipWithReport(file, options)).pack
+}
+
+// Streams the archive through fflate's Unzip one chunk at a time, so only the entry
+// currently being inflated is buffered on top of the resulting VFS.
+// Entry count, total inflated size and per-entry compression ratio are capped; breaking a
+// limit aborts the whole import. Unsafe paths and OS junk are dropped and listed in the report.
+export async function importZipWithReport(file: File, options: ImportZipOptions = {}): Promise<ImportResult> {
+  const limits = resolveImportLimits(options.limits)
+  const report = createImportReport()
+  const files: Vfs = createVfs()
+
+  // Entry count comes from the end-of-central-directory record; without it, progress falls back to bytes.
+  const entryCount = await readZipEntryCount(file)
+  if (entryCount !== null && entryCount > limits.maxEntries) {
+    throw new Error(`ZIP has ${entryCount} entries; the limit is ${limits.maxEntries}`)
+  }
+
+  let bytesRead = 0
+  const reportProgress = () => {
+    if (entryCount !== null) options.onProgress?.(Math.min(report.entries, entryCount), entryCount)
+    else options.onProgress?.(bytesRead, file.size)
+  }
+
+  let failure: Error | null = null
+  const unzipper = new Unzip((entry: UnzipFile) => {
+    if (failure) return
+    report.entries++
+    if (report.entries > limits.maxEntries) {
+      failure = new Error(`ZIP has more than ${limits.maxEntries} entries`)
+      return
+    }
+
+    const path = admitImportEntry(report, entry.name, (p) => files.has(p), options.filter)
+    if (path === null) return
+
+    const chunks: Uint8Array[] = []
+    let entrySize = 0
+    entry.ondata = (err, chunk, final) => {
+      if (failure) return
+      if (err) {
+        failure = new Error(`Failed to read ${entry.name}: ${err.message}`)
+        return
+      }
+
+      entrySize += chunk.byteLength
+      report.totalSize += chunk.byteLength
+      if (report.totalSize > limits.maxTotalSize) {
+        failure = new Error(`ZIP inflates to more than ${formatSize(limits.maxTotalSize)}`)
+      } else if (
+        entry.size &&
+        entrySize > COMPRESSION_RATIO_MIN_SIZE &&
+        entrySize / entry.size > limits.maxCompressionRatio
+      ) {
+        failure = new Error(`${entry.name} has a suspicious compression ratio (possible zip bomb)`)
+      }
+      if (failure) {
+        entry.terminate()
+        return
+      }
+
+      chunks.push(chunk)
+      if (final) {
+        files.set(path, concatChunks(chunks))
+        report.imported++
+      }
+    }
+    entry.start()
   })
+  unzipper.register(UnzipInflate)
 
-  const files: Vfs = new Map()
-  for (const [rawPath, data] of Object.entries(unzipped)) {
-    const p = normalizePath(rawPath)
-    if (!p || p.endsWith('/')) continue
-    files.set(p, data)
+  const reader = file.stream().getReader()
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    bytesRead += value.byteLength
+    unzipper.push(value, false)
+    if (failure) {
+      await reader.cancel()
+      throw failure
+    }
+    reportProgress()
   }
+  unzipper.push(new Uint8Array(0), true)
+  if (failure) throw failure
+  reportProgress()
+
+  return detectImportRoot({ pack: { name: stripZipExt(file.name) ?? 'resourcepack', files }, report }, options)
+}
 
+// Fills in the report's pack roots and re-roots when there is exactly one below the top level.
+// Several roots are left alone: the caller decides which one to use (or splits them).
+export function detectImportRoot(result: ImportResult, options: { detectRoot?: boolean } = {}): ImportResult {
+  result.report.packRoots = findPackRoots(result.pack.files.keys())
+  const roots = result.report.packRoots
+  if (options.detectRoot !== false && roots.length === 1 && roots[0] !== '') return applyImportRoot(result, roots[0])
+  return result
+}
+
+// Re-roots an imported pack; whatever sat outside the root is listed as skipped.
+export function applyImportRoot(result: ImportResult, root: string, name?: string): ImportResult {
+  const pack = rerootPack(result.pack, root, name)
+  const skipped = [...result.report.skipped]
+  for (const path of result.pack.files.keys()) {
+    if (!path.startsWith(root)) skipped.push({ path, reason: `outside pack root ${root}` })
+  }
   return {
-    name: stripZipExt(file.name) ?? 'resourcepack',
-    files,
+    pack,
+    report: { ...result.report, imported: pack.files.size, skipped, root },
   }
 }
 
-export function exportZipBytes(files: Vfs): Uint8Array {
-  const obj: Record<string, Uint8Array> = {}
-  for (const [path, data] of files.entries()) {
-    obj[path] = data
+// Serializable part of the export options (safe to hand to the pack worker).
+export type ExportZipSettings = {
+  // Sorted entries, fixed timestamps and a fixed level: same files in, same bytes (and SHA-1) out.
+  deterministic?: boolean
+  // Per-file store/deflate policy; defaults to DEFAULT_EXPORT_PROFILE.
+  profile?: ExportProfile
+}
+
+export type ExportZipOptions = ExportZipSettings & {
+  onProgress?: ProgressCallback
+}
+
+// DOS timestamps can't go earlier than 1980. Built from local fields because that's what ZIP stores.
+const DETERMINISTIC_MTIME = new Date(1980, 0, 1, 0, 0, 0)
+
+export function exportZipBytes(files: Vfs, options: ExportZipOptions = {}): Uint8Array {
+  const chunks: Uint8Array[] = []
+  let zipError: Error | null = null
+
+  // Zip + ZipDeflate run synchronously, so the archive is complete once end() returns.
+  const zip = new Zip((err, chunk) => {
+    if (err) zipError = err
+    else chunks.push(chunk)
+  })
+
+  const entries = Array.from(files.entries())
+  if (options.deterministic) {
+    // Plain code-unit order, not localeCompare: the result must not depend on the browser's locale.
+    entries.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
   }
-  return zipSync(obj, { level: 6 })
+
+  const profile = options.profile ?? DEFAULT_EXPORT_PROFILE
+  const total = entries.length
+  let done = 0
+  for (const [path, data] of entries) {
+    const choice = resolveCompression(path, profile)
+    const entry = choice.mode === 'store' ? new ZipPassThrough(path) : new ZipDeflate(path, { level: choice.level })
+    if (options.deterministic) entry.mtime = DETERMINISTIC_MTIME
+    zip.add(entry)
+    entry.push(data, true)
+    options.onProgress?.(++done, total)
+  }
+  zip.end()
+
+  if (zipError) throw zipError
+  return concatChunks(chunks)
 }
 
 export function downloadZip(bytes: Uint8Array, filename: string): void {
@@ -50,6 +205,60 @@ export function downloadZip(bytes: Uint8Array, filename: string): void {
   URL.revokeObjectURL(url)
 }
 
+// Compressed size of every entry, read back from the archive's central directory.
+export function readZipCompressedSizes(bytes: Uint8Array): Map<string, number> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const eocd = findEndOfCentralDirectory(view)
+  const sizes = new Map<string, number>()
+  if (eocd === null) return sizes
+
+  const decoder = new TextDecoder()
+  const count = view.getUint16(eocd + 10, true)
+  let offset = view.getUint32(eocd + 16, true)
+  for (let i = 0; i < count && offset + 46 <= bytes.byteLength; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break
+    const compressedSize = view.getUint32(offset + 20, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength))
+    sizes.set(name, compressedSize)
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+  return sizes
+}
+
+async function readZipEntryCount(file: File): Promise<number | null> {
+  // EOCD is 22 bytes plus an optional comment of up to 64 KiB at the very end of the file.
+  const tailSize = Math.min(file.size, 22 + 0xffff)
+  const tail = new Uint8Array(await file.slice(file.size - tailSize).arrayBuffer())
+  const view = new DataView(tail.buffer, tail.byteOffset, tail.byteLength)
+
+  const eocd = findEndOfCentralDirectory(view)
+  if (eocd === null) return null
+  const count = view.getUint16(eocd + 10, true)
+  // 0xffff means the real count lives in a ZIP64 record; don't bother, use bytes instead.
+  return count === 0xffff ? null : count
+}
+
+function findEndOfCentralDirectory(view: DataView): number | null {
+  for (let i = view.byteLength - 22; i >= Math.max(0, view.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) return i
+  }
+  return null
+}
+
+function concatChunks(chunks: Uint8Array[]): Uint8Array {
+  const size = chunks.reduce((sum, c) => sum + c.byteLength, 0)
+  const out = new Uint8Array(size)
+  let offset = 0
+  for (const chunk of chunks) {
+    out.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return out
+}
+
 function stripZipExt(name: string): string | null {
   return name.toLowerCase().endsWith('.zip') ? name.slice(0, -4) : name
 }
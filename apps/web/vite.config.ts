@@ -2,9 +2,11 @@ import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
-export default defineConfig({
+export default defineConfig(({ isSsrBuild }) => ({
   plugins: [react()],
+  // The CLI bundle (`build:cli`, an SSR build) has no use for the web app's static assets.
+  publicDir: isSsrBuild ? false : 'public',
   server: {
     port: 5173,
   },
-})
+}))